@@ -0,0 +1,120 @@
+import { createHash } from 'crypto';
+import { chmod, mkdir, mkdtemp, readFile, writeFile } from 'fs/promises';
+import { createServer, IncomingMessage, request, Server } from 'http';
+import { AddressInfo, connect, Socket } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as tar from 'tar';
+
+// Packs a stand-in `near-sandbox` script into a tarball laid out like the published artifacts
+export async function fakeTarball(): Promise<{ path: string; data: Buffer; sha256: string }> {
+    const dir = await mkdtemp(join(tmpdir(), 'near-sandbox-artifact-'));
+    await mkdir(join(dir, 'near-sandbox-fake'));
+    const bin = join(dir, 'near-sandbox-fake', 'near-sandbox');
+    await writeFile(bin, '#!/bin/sh\necho "neard (fake)"\n');
+    await chmod(bin, 0o755);
+
+    const path = join(dir, 'near-sandbox.tar.gz');
+    await tar.c({ gzip: true, cwd: dir, file: path }, ['near-sandbox-fake']);
+    const data = await readFile(path);
+    return { path, data, sha256: createHash('sha256').update(data).digest('hex') };
+}
+
+/*
+  * failures - Number of first requests answered with a 500.
+  * truncateAfter - Drops the connection of the first successful response after this many bytes.
+  * ranges - Whether range requests are answered with 206.
+  * sha256 - Checksum published as `<path>.sha256`, which is a 404 otherwise.
+  */
+export interface ArtifactServerOptions {
+    failures?: number;
+    truncateAfter?: number;
+    ranges?: boolean;
+    sha256?: string;
+}
+
+// Serves `data` on every path but `.sha256` ones, recording the requests and their range headers
+export async function startArtifactServer(data: Buffer, options: ArtifactServerOptions = {}): Promise<{
+    server: Server;
+    url: string;
+    requests: () => number;
+    ranges: () => (string | undefined)[];
+}> {
+    const ranges: (string | undefined)[] = [];
+    let truncated = false;
+    const server = createServer((req, res) => {
+        if (req.url!.split('?')[0]!.endsWith('.sha256')) {
+            res.statusCode = options.sha256 ? 200 : 404;
+            res.end(options.sha256 ? `${options.sha256}  near-sandbox.tar.gz\n` : undefined);
+            return;
+        }
+        ranges.push(req.headers.range);
+        if (ranges.length <= (options.failures ?? 0)) {
+            res.statusCode = 500;
+            res.end();
+            return;
+        }
+        let start = 0;
+        const range = /^bytes=(\d+)-$/.exec(req.headers.range ?? '');
+        if (options.ranges && range) {
+            start = Number(range[1]);
+            res.statusCode = 206;
+            res.setHeader('Content-Range', `bytes ${start}-${data.length - 1}/${data.length}`);
+        }
+        const body = data.subarray(start);
+        res.setHeader('Content-Length', body.length);
+        if (options.truncateAfter !== undefined && !truncated) {
+            truncated = true;
+            res.flushHeaders();
+            res.write(body.subarray(0, options.truncateAfter), () => setTimeout(() => res.destroy(), 50));
+            return;
+        }
+        res.end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return {
+        server,
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/near-sandbox.tar.gz`,
+        requests: () => ranges.length,
+        ranges: () => ranges,
+    };
+}
+
+// Starts a forward proxy that tunnels CONNECT requests and forwards absolute-URI ones, counting both
+export async function startProxy(): Promise<{ server: Server; url: string; tunnels: () => number; forwarded: () => string[] }> {
+    let tunnels = 0;
+    const forwarded: string[] = [];
+    const server = createServer((req, res) => {
+        if (!/^http:\/\//.test(req.url!)) {
+            res.statusCode = 400;
+            res.end();
+            return;
+        }
+        forwarded.push(req.url!);
+        const upstream = request(req.url!, { method: req.method, headers: req.headers }, response => {
+            res.writeHead(response.statusCode!, response.headers);
+            response.pipe(res);
+        });
+        upstream.on('error', () => res.destroy());
+        req.pipe(upstream);
+    });
+    server.on('connect', (req: IncomingMessage, client: Socket, head: Buffer) => {
+        tunnels += 1;
+        const [host, port] = req.url!.split(':');
+        const upstream = connect(Number(port), host, () => {
+            client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+            upstream.write(head);
+            upstream.pipe(client);
+            client.pipe(upstream);
+        });
+        upstream.on('error', () => client.destroy());
+        client.on('error', () => upstream.destroy());
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return {
+        server,
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        tunnels: () => tunnels,
+        forwarded: () => forwarded,
+    };
+}
@@ -0,0 +1,118 @@
+import test from 'ava';
+import { existsSync } from 'fs';
+import { chmod, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runBinaryCommand } from '../src/cli/binary';
+import { compareVersions } from '../src/binary/binaryUtils';
+
+// every test file runs in its own worker, so the env only affects this file
+const binariesDir = join(tmpdir(), `near-sandbox-bin-${process.pid}`);
+process.env['DIR_TO_DOWNLOAD_BINARY'] = binariesDir;
+delete process.env['NEAR_SANDBOX_BIN_PATH'];
+
+async function fakeBinary(version: string, exitCode = 0): Promise<string> {
+    const dir = join(binariesDir, `near-sandbox-${version}`);
+    await mkdir(dir, { recursive: true });
+    const path = join(dir, 'near-sandbox');
+    await writeFile(path, `#!/bin/sh\necho "neard ${version}"\nexit ${exitCode}\n`);
+    await chmod(path, 0o755);
+    return path;
+}
+
+async function run(...args: string[]): Promise<{ code: number; output: string[] }> {
+    const output: string[] = [];
+    const code = await runBinaryCommand(args, line => output.push(line));
+    return { code, output };
+}
+
+test.serial.afterEach.always(async () => {
+    await rm(binariesDir, { recursive: true, force: true });
+});
+
+test('compareVersions orders numeric parts and pre-releases', t => {
+    t.deepEqual(
+        ['2.10.1', '2.6.3', '2.10.1-rc.1', '2.10.0'].sort(compareVersions),
+        ['2.6.3', '2.10.0', '2.10.1-rc.1', '2.10.1']
+    );
+});
+
+test.serial('binary list and path show downloaded versions', async t => {
+    const path = await fakeBinary('2.6.3');
+    await fakeBinary('2.10.0');
+    // directories without a binary are ignored
+    await mkdir(join(binariesDir, 'near-sandbox-1.0.0'), { recursive: true });
+
+    const listed = await run('list');
+    t.is(listed.code, 0);
+    t.is(listed.output.length, 2);
+    t.regex(listed.output[0]!, /2\.10\.0/);
+    t.regex(listed.output[1]!, /2\.6\.3/);
+
+    t.deepEqual(await run('path', '2.6.3'), { code: 0, output: [path] });
+    t.is((await run('path', '3.0.0')).code, 1);
+});
+
+test.serial('binary prune keeps the newest versions', async t => {
+    await fakeBinary('2.6.3');
+    await fakeBinary('2.8.0');
+    await fakeBinary('2.9.0');
+
+    const pruned = await run('prune', '--keep', '2');
+    t.is(pruned.code, 0);
+    t.deepEqual(pruned.output, ['Removed 2.6.3']);
+    t.false(existsSync(join(binariesDir, 'near-sandbox-2.6.3')));
+    t.true(existsSync(join(binariesDir, 'near-sandbox-2.8.0')));
+
+    t.is((await run('prune', '--keep', 'all')).code, 1);
+});
+
+test.serial('binary list and prune honor the configured default version', async t => {
+    await fakeBinary('2.6.3');
+    await fakeBinary('2.8.0');
+    await fakeBinary('2.9.0');
+    process.env['NEAR_SANDBOX_VERSION'] = '2.6.3';
+    try {
+        const listed = await run('list');
+        t.deepEqual(listed.output.map(line => line[0]), [' ', ' ', '*']);
+
+        t.deepEqual((await run('prune')).output, ['Removed 2.8.0']);
+        t.true(existsSync(join(binariesDir, 'near-sandbox-2.6.3')));
+    } finally {
+        delete process.env['NEAR_SANDBOX_VERSION'];
+    }
+});
+
+test.serial('binary verify reports binaries that do not run', async t => {
+    await fakeBinary('2.6.3');
+    await fakeBinary('2.8.0', 1);
+
+    const verified = await run('verify');
+    t.is(verified.code, 1);
+    t.true(verified.output.some(line => line.startsWith('failed\t2.8.0')));
+    t.true(verified.output.includes('ok\t2.6.3'));
+
+    t.is((await run('verify', '2.6.3')).code, 0);
+});
+
+test('binary without a known command prints usage', async t => {
+    const { code, output } = await run('unknown');
+    t.is(code, 1);
+    t.regex(output[0]!, /Usage: near-sandbox binary/);
+});
+
+test.serial('binary install and path print usage for versions they cannot use', async t => {
+    const range = await run('install', '^3.0');
+    t.is(range.code, 1);
+    t.regex(range.output[0]!, /Expected an exact version to install.*\^3\.0/);
+    t.regex(range.output[1]!, /Usage: near-sandbox binary/);
+
+    const invalid = await run('path', 'garbage!');
+    t.is(invalid.code, 1);
+    t.regex(invalid.output[0]!, /Invalid sandbox version range: garbage!/);
+    t.regex(invalid.output[1]!, /Usage: near-sandbox binary/);
+
+    const unmatched = await run('path', '^1.0');
+    t.is(unmatched.code, 1);
+    t.regex(unmatched.output[0]!, /No downloaded sandbox binary matches \^1\.0/);
+});
@@ -0,0 +1,79 @@
+import test from 'ava';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NEAR } from '@near-js/tokens';
+import { loadConfigFile } from '../src/cli/configFile';
+import { SandboxErrors, TypedError } from '../src/errors';
+import { DEFAULT_BALANCE, GenesisAccount } from '../src/sandbox/config';
+
+let dir: string;
+
+test.before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'near-sandbox-config-'));
+});
+
+test.after.always(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+test('a JSON config file becomes start parameters', async t => {
+    const path = join(dir, 'sandbox.config.json');
+    await writeFile(path, JSON.stringify({
+        version: '2.6.3',
+        homeDir: 'home',
+        rpcPort: 4040,
+        additionalGenesis: { epoch_length: 10 },
+        additionalAccounts: [
+            { accountId: 'alice.sandbox', balance: '100 NEAR' },
+            { accountId: 'bob.sandbox', publicKey: 'ed25519:pub', privateKey: 'ed25519:priv', balance: '5' },
+            { accountId: 'carol.sandbox' },
+        ],
+        additionalContracts: [{ accountId: 'hello.sandbox', code: 'hello.wasm', balance: '1 NEAR' }],
+    }));
+
+    const params = await loadConfigFile(path);
+    t.is(params.version, '2.6.3');
+    t.is(params.homeDir, join(dir, 'home'));
+    t.is(params.config?.rpcPort, 4040);
+    t.deepEqual(params.config?.additionalGenesis, { epoch_length: 10 });
+
+    const [alice, bob, carol] = params.config!.additionalAccounts!;
+    t.true(alice instanceof GenesisAccount);
+    t.is(alice!.balance, NEAR.toUnits(100));
+    t.regex(alice!.publicKey, /^ed25519:/);
+    t.regex(alice!.privateKey, /^ed25519:/);
+    t.deepEqual(bob, new GenesisAccount('bob.sandbox', 'ed25519:pub', 'ed25519:priv', BigInt(5)));
+    t.is(carol!.balance, DEFAULT_BALANCE);
+
+    const [contract] = params.config!.additionalContracts!;
+    t.is(contract!.code, join(dir, 'hello.wasm'));
+    t.is(contract!.balance, NEAR.toUnits(1));
+});
+
+test('a JS module config file can export a function', async t => {
+    const path = join(dir, 'sandbox.config.mjs');
+    await writeFile(path, `export default async () => ({ netPort: 4041, additionalAccounts: [{ accountId: 'dave.sandbox', balance: 7n }] });\n`);
+
+    const params = await loadConfigFile(path);
+    t.is(params.config?.netPort, 4041);
+    t.is(params.config?.additionalAccounts?.[0]?.balance, BigInt(7));
+});
+
+test('invalid config files are rejected with the offending field', async t => {
+    const cases: [string, unknown, RegExp][] = [
+        ['balance.json', { additionalAccounts: [{ accountId: 'a.sandbox', balance: 'lots' }] }, /additionalAccounts\[0\]\.balance/],
+        ['keys.json', { additionalAccounts: [{ accountId: 'a.sandbox', publicKey: 'ed25519:pub' }] }, /both publicKey and privateKey/],
+        ['array.json', [], /must contain an object/],
+        ['readyWhen.json', { readyWhen: 'firstblock' }, /readyWhen must be "status" or "firstBlock", got "firstblock"/],
+    ];
+    for (const [name, contents, message] of cases) {
+        const path = join(dir, name);
+        await writeFile(path, JSON.stringify(contents));
+        const error = await t.throwsAsync(loadConfigFile(path), { instanceOf: TypedError, message });
+        t.is(error?.type, SandboxErrors.InvalidConfig);
+    }
+
+    await writeFile(join(dir, 'broken.json'), '{');
+    await t.throwsAsync(loadConfigFile(join(dir, 'broken.json')), { message: /Failed to load config file/ });
+});
@@ -0,0 +1,128 @@
+import test from 'ava';
+import { ChildProcess, spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { once } from 'events';
+import { runDownCommand, runStatusCommand } from '../src/cli/daemon';
+import { SandboxCrashError, SandboxErrors, TypedError } from '../src/errors';
+import { Sandbox } from '../src/sandbox/Sandbox';
+import { SandboxHandle } from '../src/sandbox/sandboxUtils';
+
+// Stands in for a detached node: answers `/status` and the JSON-RPC `status` method, and prints its port
+const FAKE_NODE = `
+const status = { sync_info: { latest_block_height: 5 } };
+require('http').createServer((req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(req.method === 'POST' ? { jsonrpc: '2.0', id: 'dontcare', result: status } : status));
+}).listen(0, '127.0.0.1', function () { console.log(this.address().port); });
+`;
+
+let dir: string;
+
+test.before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'near-sandbox-connect-'));
+});
+
+test.after.always(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+// Starts a fake node and writes a handle for it, with a temporary home directory and held port locks
+async function startFakeNode(name: string): Promise<{ node: ChildProcess; handleFile: string; handle: SandboxHandle }> {
+    const node = spawn(process.execPath, ['-e', FAKE_NODE], { stdio: ['ignore', 'pipe', 'inherit'] });
+    const [chunk] = await once(node.stdout!, 'data');
+    const port = Number(String(chunk).trim());
+    const homeDir = join(dir, `${name}-home`);
+    await mkdir(homeDir);
+    const handle: SandboxHandle = {
+        pid: node.pid!,
+        rpcUrl: `http://127.0.0.1:${port}`,
+        homeDir,
+        ownsHomeDir: true,
+        version: '2.10.7',
+        rpcPort: port,
+        netPort: port + 1,
+        rpcPortLockPath: join(dir, `${name}-rpc.lock`),
+        netPortLockPath: join(dir, `${name}-net.lock`),
+        runArgs: ['--home', homeDir, 'run'],
+    };
+    // locks taken by the process that started the node
+    for (const lockPath of [handle.rpcPortLockPath, handle.netPortLockPath]) {
+        await writeFile(lockPath, '');
+        await mkdir(`${lockPath}.lock`);
+    }
+    const handleFile = join(dir, `${name}.json`);
+    await writeFile(handleFile, JSON.stringify(handle));
+    return { node, handleFile, handle };
+}
+
+test('Sandbox.connect() controls a node started by another process', async t => {
+    const { node, handleFile, handle } = await startFakeNode('connect');
+    const sandbox = await Sandbox.connect(handleFile);
+    t.is(sandbox.pid, node.pid);
+    t.is(sandbox.rpcUrl, handle.rpcUrl);
+    t.is(sandbox.homeDir, handle.homeDir);
+    t.true(sandbox.isRunning);
+    t.is((await sandbox.rpc.status()).sync_info.latest_block_height, 5);
+
+    let crashed = false;
+    sandbox.on('crash', () => crashed = true);
+    await sandbox.tearDown();
+    t.false(crashed);
+    t.false(sandbox.isRunning);
+    t.false(existsSync(handleFile));
+    t.false(existsSync(handle.homeDir));
+    t.false(existsSync(`${handle.rpcPortLockPath}.lock`));
+    t.false(existsSync(`${handle.netPortLockPath}.lock`));
+});
+
+test('a connected sandbox reports a crash when its node dies', async t => {
+    const { node, handleFile } = await startFakeNode('crash');
+    const sandbox = await Sandbox.connect(handleFile);
+    const crash = new Promise<SandboxCrashError>(resolve => sandbox.once('crash', resolve));
+    node.kill('SIGKILL');
+    t.true(await crash instanceof SandboxCrashError);
+    t.false(sandbox.isRunning);
+    await t.throwsAsync(sandbox.rpc.status(), { instanceOf: SandboxCrashError });
+
+    const error = await t.throwsAsync(Sandbox.connect(handleFile), { instanceOf: TypedError, message: /is not running/ });
+    t.is(error?.type, SandboxErrors.InvalidArgument);
+    await t.throwsAsync(Sandbox.connect(join(dir, 'missing.json')), { message: /Failed to read sandbox handle/ });
+});
+
+test('near-sandbox status and down use the handle file', async t => {
+    const { handleFile, handle } = await startFakeNode('cli');
+    const lines: string[] = [];
+    const log = (line: string) => lines.push(line);
+
+    t.is(await runStatusCommand(['--handle', handleFile], log), 0);
+    t.true(lines.some(line => /Status:\s+running, block #5/.test(line)));
+    t.true(lines.some(line => line.includes(handle.rpcUrl)));
+
+    t.is(await runDownCommand(['--handle', handleFile], log), 0);
+    t.false(existsSync(handleFile));
+    t.false(existsSync(handle.homeDir));
+    t.false(existsSync(`${handle.rpcPortLockPath}.lock`));
+    t.is(await runStatusCommand(['--handle', handleFile], log), 1);
+
+    // a hung node that doesn't answer RPC is taken down as well
+    const { node: hung, handleFile: hungHandleFile, handle: hungHandle } = await startFakeNode('hung');
+    hung.kill('SIGSTOP');
+    const hungExit = once(hung, 'exit');
+    t.is(await runDownCommand(['--handle', hungHandleFile], log), 0);
+    await hungExit;
+    t.false(existsSync(hungHandleFile));
+    t.false(existsSync(hungHandle.homeDir));
+    t.false(existsSync(`${hungHandle.netPortLockPath}.lock`));
+
+    // leftovers of a node that exited on its own are cleaned up
+    const { node, handleFile: deadHandleFile, handle: dead } = await startFakeNode('dead');
+    node.kill('SIGKILL');
+    await once(node, 'exit');
+    t.is(await runDownCommand(['--handle', deadHandleFile], log), 0);
+    t.false(existsSync(deadHandleFile));
+    t.false(existsSync(dead.homeDir));
+    t.false(existsSync(`${dead.rpcPortLockPath}.lock`));
+});
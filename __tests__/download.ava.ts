@@ -0,0 +1,218 @@
+import test from 'ava';
+import { existsSync } from 'fs';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { pathToFileURL } from 'url';
+import { join } from 'path';
+import { downloadBin, pingBin } from '../src/binary/binary';
+import { checksumKey } from '../src/binary/checksum';
+import { artifactSources } from '../src/binary/sources';
+import { getPlatform } from '../src/binary/binaryUtils';
+import { BinaryErrors, SandboxErrors, TypedError } from '../src/errors';
+import { Sandbox } from '../src/sandbox/Sandbox';
+import { fakeTarball, startArtifactServer, startProxy } from './artifactServer';
+import { DownloadProgress } from '../src/binary/sources';
+
+// every test file runs in its own worker, so the env only affects this file
+delete process.env['NEAR_SANDBOX_BIN_PATH'];
+
+test.beforeEach(async () => {
+    process.env['DIR_TO_DOWNLOAD_BINARY'] = await mkdtemp(join(tmpdir(), 'near-sandbox-bin-'));
+    delete process.env['NEAR_SANDBOX_BIN_SHA256'];
+    delete process.env['NEAR_SANDBOX_VERSION'];
+    delete process.env['NEAR_SANDBOX_CHECKSUMS'];
+    delete process.env['SANDBOX_ARTIFACT_URL'];
+    delete process.env['NEAR_SANDBOX_MIRROR_URL'];
+    delete process.env['NEAR_SANDBOX_FALLBACK_URLS'];
+    delete process.env['HTTP_PROXY'];
+    delete process.env['NO_PROXY'];
+});
+
+test.afterEach.always(async () => {
+    await rm(process.env['DIR_TO_DOWNLOAD_BINARY']!, { recursive: true, force: true });
+});
+
+test.serial('downloadBin verifies the tarball against NEAR_SANDBOX_BIN_SHA256', async t => {
+    const tarball = await fakeTarball();
+    const { server, url } = await startArtifactServer(tarball.data);
+    process.env['SANDBOX_ARTIFACT_URL'] = url;
+    try {
+        process.env['NEAR_SANDBOX_VERSION'] = '1.0.0-mismatch';
+        process.env['NEAR_SANDBOX_BIN_SHA256'] = '0'.repeat(64);
+        const error = await t.throwsAsync<TypedError>(downloadBin('1.0.0-mismatch'));
+        t.is(error?.type, BinaryErrors.ChecksumMismatch);
+        const versionDir = join(process.env['DIR_TO_DOWNLOAD_BINARY']!, 'near-sandbox-1.0.0-mismatch');
+        t.false(existsSync(join(versionDir, 'near-sandbox.tar.gz')));
+        t.false(existsSync(join(versionDir, 'near-sandbox')));
+
+        process.env['NEAR_SANDBOX_VERSION'] = '1.0.0-pinned';
+        process.env['NEAR_SANDBOX_BIN_SHA256'] = tarball.sha256.toUpperCase();
+        const binPath = await downloadBin('1.0.0-pinned');
+        await t.notThrowsAsync(pingBin(binPath));
+
+        // the pinned checksum doesn't apply to other versions
+        process.env['NEAR_SANDBOX_BIN_SHA256'] = '0'.repeat(64);
+        await t.notThrowsAsync(downloadBin('1.0.0-other'));
+    } finally {
+        server.close();
+    }
+});
+
+test.serial('downloadBin verifies the tarball against a checksum manifest', async t => {
+    const tarball = await fakeTarball();
+    const { server, url } = await startArtifactServer(tarball.data);
+    process.env['SANDBOX_ARTIFACT_URL'] = url;
+    const manifest = join(process.env['DIR_TO_DOWNLOAD_BINARY']!, 'checksums.json');
+    try {
+        await writeFile(manifest, JSON.stringify({
+            [checksumKey('1.0.0')]: tarball.sha256,
+            [checksumKey('1.0.1')]: 'f'.repeat(64),
+        }));
+        process.env['NEAR_SANDBOX_CHECKSUMS'] = manifest;
+
+        await t.notThrowsAsync(downloadBin('1.0.0'));
+        await t.throwsAsync(downloadBin('1.0.1'), { instanceOf: TypedError, message: /Checksum mismatch/ });
+    } finally {
+        server.close();
+    }
+});
+
+test.serial('downloadBin verifies the tarball against a published .sha256 and reports downloads without one', async t => {
+    const tarball = await fakeTarball();
+    const published = await startArtifactServer(tarball.data, { sha256: tarball.sha256 });
+    const tampered = await startArtifactServer(tarball.data, { sha256: 'f'.repeat(64) });
+    const unpublished = await startArtifactServer(tarball.data);
+    const warnings: string[] = [];
+    const onUnverified = (warning: string) => warnings.push(warning);
+    try {
+        process.env['SANDBOX_ARTIFACT_URL'] = published.url;
+        await t.notThrowsAsync(downloadBin('1.0.0-published', { onUnverified }));
+        process.env['SANDBOX_ARTIFACT_URL'] = tampered.url;
+        await t.throwsAsync(downloadBin('1.0.0-tampered', { onUnverified }), { instanceOf: TypedError, message: /Checksum mismatch/ });
+        t.deepEqual(warnings, []);
+
+        process.env['SANDBOX_ARTIFACT_URL'] = unpublished.url;
+        await t.notThrowsAsync(downloadBin('1.0.0-unpublished', { onUnverified }));
+        t.is(warnings.length, 1);
+        t.regex(warnings[0]!, /can't be verified/);
+    } finally {
+        [published, tampered, unpublished].forEach(({ server }) => server.close());
+    }
+});
+
+test.serial('downloadBin installs from file:// URLs and plain paths', async t => {
+    const tarball = await fakeTarball();
+
+    process.env['SANDBOX_ARTIFACT_URL'] = pathToFileURL(tarball.path).href;
+    await t.notThrowsAsync(async () => pingBin(await downloadBin('1.0.0-file-url')));
+
+    process.env['SANDBOX_ARTIFACT_URL'] = tarball.path;
+    await t.notThrowsAsync(async () => pingBin(await downloadBin('1.0.0-path')));
+    // the source tarball is copied, never consumed
+    t.true(existsSync(tarball.path));
+});
+
+test.serial('artifactSources expands the mirror template and keeps the fallback order', t => {
+    const [platform, arch] = getPlatform();
+    process.env['NEAR_SANDBOX_MIRROR_URL'] = 'https://mirror.test/near/';
+    process.env['NEAR_SANDBOX_FALLBACK_URLS'] = 'file:///cache/{version}-{platform}-{arch}.tar.gz, /offline/near-sandbox.tar.gz';
+    t.deepEqual(artifactSources('2.6.3'), [
+        `https://mirror.test/near/${platform}-${arch}/2.6.3/near-sandbox.tar.gz`,
+        `file:///cache/2.6.3-${platform}-${arch}.tar.gz`,
+        '/offline/near-sandbox.tar.gz',
+    ]);
+});
+
+test.serial('downloadBin falls back to the next source', async t => {
+    const tarball = await fakeTarball();
+    const { server, url, requests } = await startArtifactServer(tarball.data);
+    try {
+        process.env['SANDBOX_ARTIFACT_URL'] = join(tmpdir(), 'missing-near-sandbox.tar.gz');
+        process.env['NEAR_SANDBOX_FALLBACK_URLS'] = `${url}?v={version}`;
+        await t.notThrowsAsync(downloadBin('1.0.0-fallback'));
+        t.is(requests(), 1);
+
+        process.env['NEAR_SANDBOX_FALLBACK_URLS'] = join(tmpdir(), 'also-missing.tar.gz');
+        await t.throwsAsync(downloadBin('1.0.0-missing'), {
+            instanceOf: TypedError,
+            message: /Failed to download binary[\s\S]*missing-near-sandbox[\s\S]*also-missing/,
+        });
+    } finally {
+        server.close();
+    }
+});
+
+test.serial('downloadBin retries failed downloads with backoff', async t => {
+    const tarball = await fakeTarball();
+    const { server, url, requests } = await startArtifactServer(tarball.data, { failures: 2 });
+    process.env['SANDBOX_ARTIFACT_URL'] = url;
+    try {
+        await t.throwsAsync(downloadBin('1.0.0-no-retry', { retries: 0 }), { message: /Failed to download binary/ });
+        t.is(requests(), 1);
+
+        await t.notThrowsAsync(downloadBin('1.0.0-retry', { retries: 2, retryDelayMs: 10 }));
+        t.is(requests(), 3);
+
+        // a refused connection is not transient, so it fails without waiting for a retry
+        process.env['SANDBOX_ARTIFACT_URL'] = 'http://127.0.0.1:1/near-sandbox.tar.gz';
+        await t.throwsAsync(downloadBin('1.0.0-refused', { retries: 1, retryDelayMs: 60_000 }), { message: /ECONNREFUSED/ });
+    } finally {
+        server.close();
+    }
+});
+
+test.serial('downloadBin resumes a truncated download and reports progress', async t => {
+    const tarball = await fakeTarball();
+    const { server, url, ranges } = await startArtifactServer(tarball.data, { truncateAfter: 64, ranges: true });
+    process.env['SANDBOX_ARTIFACT_URL'] = url;
+    try {
+        const progress: DownloadProgress[] = [];
+        const binPath = await downloadBin('1.0.0-resume', { retryDelayMs: 10, onProgress: p => progress.push(p) });
+        await t.notThrowsAsync(pingBin(binPath));
+
+        t.deepEqual(ranges(), [undefined, 'bytes=64-']);
+        t.deepEqual(progress[progress.length - 1], { source: url, transferred: tarball.data.length, total: tarball.data.length });
+    } finally {
+        server.close();
+    }
+});
+
+test.serial('downloadBin honors HTTP_PROXY and NO_PROXY', async t => {
+    const tarball = await fakeTarball();
+    const artifacts = await startArtifactServer(tarball.data);
+    const proxy = await startProxy();
+    process.env['SANDBOX_ARTIFACT_URL'] = artifacts.url;
+    process.env['HTTP_PROXY'] = proxy.url;
+    try {
+        // plain-http requests for the tarball and its .sha256 are sent to the proxy, not tunneled
+        await t.notThrowsAsync(downloadBin('1.0.0-proxy'));
+        t.deepEqual(proxy.forwarded(), [artifacts.url, `${artifacts.url}.sha256`]);
+        t.is(proxy.tunnels(), 0);
+
+        process.env['NO_PROXY'] = 'localhost,127.0.0.1';
+        await t.notThrowsAsync(downloadBin('1.0.0-no-proxy'));
+        t.is(proxy.forwarded().length, 2);
+        t.is(artifacts.requests(), 2);
+    } finally {
+        artifacts.server.close();
+        proxy.server.close();
+    }
+});
+
+test.serial('Sandbox.start() aborts a download in progress', async t => {
+    // accepts the request but never answers it
+    const server = createServer(() => undefined);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    process.env['SANDBOX_ARTIFACT_URL'] = `http://127.0.0.1:${(server.address() as AddressInfo).port}/near-sandbox.tar.gz`;
+    const controller = new AbortController();
+    server.once('request', () => controller.abort());
+    try {
+        const error = await t.throwsAsync(Sandbox.start({ version: '1.0.0-abort', signal: controller.signal }), { instanceOf: TypedError });
+        t.is(error?.type, SandboxErrors.Aborted);
+    } finally {
+        server.closeAllConnections();
+        server.close();
+    }
+});
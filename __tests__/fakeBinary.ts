@@ -0,0 +1,33 @@
+import { chmod, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+// Stands in for the near-sandbox binary: `--version` succeeds, `init` writes an empty config and genesis,
+// and `run` answers `/status` and the JSON-RPC `status` method on `--rpc-addr` until it is killed
+const FAKE_BINARY = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const args = process.argv.slice(2);
+const option = name => args[args.indexOf(name) + 1];
+if (args.includes('--version')) {
+    console.log('near-sandbox 2.10.7');
+} else if (args.includes('init')) {
+    fs.mkdirSync(option('--home'), { recursive: true });
+    fs.writeFileSync(path.join(option('--home'), 'config.json'), '{}');
+    fs.writeFileSync(path.join(option('--home'), 'genesis.json'), JSON.stringify({ total_supply: '0', records: [] }));
+} else if (args.includes('run')) {
+    const address = option('--rpc-addr');
+    const status = { sync_info: { latest_block_height: 1 } };
+    require('http').createServer((req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(req.method === 'POST' ? { jsonrpc: '2.0', id: 'dontcare', result: status } : status));
+    }).listen(Number(address.slice(address.lastIndexOf(':') + 1)), address.slice(0, address.lastIndexOf(':')));
+}
+`;
+
+// Writes the stand-in binary to `dir` and returns its path, to be used as NEAR_SANDBOX_BIN_PATH
+export async function writeFakeBinary(dir: string): Promise<string> {
+    const path = join(dir, 'near-sandbox');
+    await writeFile(path, FAKE_BINARY);
+    await chmod(path, 0o755);
+    return path;
+}
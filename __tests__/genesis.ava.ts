@@ -0,0 +1,112 @@
+import test from 'ava';
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { dir } from 'tmp-promise';
+import { join } from 'path';
+import { DEFAULT_BALANCE, overrideConfigs, setSandboxGenesis, SandboxConfig } from '../src/sandbox/config';
+import { generateKeyFile } from '../src/sandbox/keys';
+import { SandboxErrors, TypedError } from '../src/errors';
+import { StateRecord } from '../src/sandbox/records';
+
+const VALIDATOR_RECORD = {
+    Account: {
+        account_id: 'test.near',
+        account: { amount: '1000', locked: '50', code_hash: '11111111111111111111111111111111', storage_usage: 182 },
+    },
+};
+
+// Writes a minimal genesis.json, applies the config to it and returns the result
+async function genesisWith(config: SandboxConfig): Promise<Record<string, any>> {
+    const homeDir = await dir({ unsafeCleanup: true });
+    try {
+        const genesisPath = join(homeDir.path, 'genesis.json');
+        await writeFile(genesisPath, JSON.stringify({ total_supply: '1050', records: [VALIDATOR_RECORD] }));
+        await setSandboxGenesis(homeDir.path, config);
+        return JSON.parse(await readFile(genesisPath, 'utf-8'));
+    } finally {
+        await homeDir.cleanup();
+    }
+}
+
+test('additionalRecords are added with consistent storage usage and total supply', async (t) => {
+    const genesis = await genesisWith({
+        additionalRecords: [
+            { AccessKey: { accountId: 'bob', publicKey: 'ed25519:5BGSaf6YjVm7565VzWQHNxoyEjwr3jUpRJSGjREvU9dB', permission: { receiverId: 'bob', methodNames: ['get'], allowance: BigInt(5) } } },
+            { Account: { accountId: 'bob', balance: BigInt(100), locked: BigInt(10) } },
+            { Data: { accountId: 'bob', key: 'k', value: 'value' } },
+            { Data: { accountId: 'test.near', key: 'k', value: 'v' } },
+        ],
+    });
+
+    t.is(genesis['total_supply'], (BigInt(1050) + DEFAULT_BALANCE + BigInt(110)).toString());
+
+    const bob = genesis['records'].find((record: any) => record.Account?.account_id === 'bob');
+    // 100 for the account, 33 + 8 + 1 + 17 + 4 + 3 + 4 + 7 + 40 for the key, 1 + 5 + 40 for the data
+    t.is(bob.Account.account.storage_usage, 100 + 117 + 46);
+    t.is(bob.Account.account.locked, '10');
+
+    const validator = genesis['records'].find((record: any) => record.Account?.account_id === 'test.near');
+    t.is(validator.Account.account.storage_usage, 182 + 1 + 1 + 40);
+
+    const key = genesis['records'].find((record: any) => record.AccessKey?.account_id === 'bob');
+    t.deepEqual(key.AccessKey.access_key.permission, { FunctionCall: { allowance: '5', receiver_id: 'bob', method_names: ['get'] } });
+});
+
+test('additionalRecords rejects duplicates, unknown accounts and malformed records at once', async (t) => {
+    const error = await t.throwsAsync(() => genesisWith({
+        additionalRecords: [
+            { Account: { accountId: 'sandbox', balance: BigInt(1) } },
+            { Account: { accountId: 'test.near', balance: BigInt(1) } },
+            { AccessKey: { accountId: 'sandbox', publicKey: 'ed25519:5BGSaf6YjVm7565VzWQHNxoyEjwr3jUpRJSGjREvU9dB' } },
+            { Data: { accountId: 'nobody', key: 'k', value: 'v' } },
+            // a number instead of a bigint balance
+            { Account: { accountId: 'carol', balance: 5 } } as unknown as StateRecord,
+        ],
+    }), { instanceOf: TypedError });
+
+    t.is(error?.type, SandboxErrors.InvalidConfig);
+    t.regex(error!.message, /additionalRecords\[0\]: duplicate account sandbox/);
+    t.regex(error!.message, /additionalRecords\[1\]: duplicate account test.near/);
+    t.regex(error!.message, /additionalRecords\[2\]: duplicate access key/);
+    t.regex(error!.message, /additionalRecords\[3\]: account nobody does not exist/);
+    t.regex(error!.message, /additionalRecords\[4\].Account.balance/);
+});
+
+test('additionalContracts set the code hash and storage usage of their accounts', async (t) => {
+    const genesis = await genesisWith({
+        additionalContracts: [{ accountId: 'contract', code: new Uint8Array(10), storage: { STATE: 'ab' } }],
+    });
+
+    const contract = genesis['records'].find((record: any) => record.Account?.account_id === 'contract');
+    t.not(contract.Account.account.code_hash, '11111111111111111111111111111111');
+    t.is(contract.Account.account.storage_usage, 100 + 10 + 5 + 2 + 40);
+    t.truthy(genesis['records'].find((record: any) => record.Contract?.account_id === 'contract'));
+});
+
+test('a validatorKey must be a validator of the written genesis', async (t) => {
+    const validatorKey = generateKeyFile('test.near');
+    const homeDir = await dir({ unsafeCleanup: true });
+    try {
+        // like the genesis written by init, with its own validator
+        const initGenesis = JSON.stringify({
+            total_supply: '1050',
+            records: [VALIDATOR_RECORD],
+            validators: [{ account_id: 'test.near', public_key: generateKeyFile().public_key, amount: '50' }],
+        });
+        await writeFile(join(homeDir.path, 'genesis.json'), initGenesis);
+        await writeFile(join(homeDir.path, 'config.json'), '{}');
+        const error = await t.throwsAsync(() => overrideConfigs(homeDir.path, { validatorKey }), { instanceOf: TypedError });
+        t.is(error?.type, SandboxErrors.InvalidConfig);
+        t.regex(error!.message, /validatorKey: test\.near with ed25519:\w+ is not a validator in genesis\.json/);
+        t.false(existsSync(join(homeDir.path, 'validator_key.json')));
+
+        await writeFile(join(homeDir.path, 'genesis.json'), initGenesis);
+        await overrideConfigs(homeDir.path, {
+            additionalGenesis: { validators: [{ account_id: 'test.near', public_key: validatorKey.public_key, amount: '50' }] },
+            validatorKey,
+        });
+        t.deepEqual(JSON.parse(await readFile(join(homeDir.path, 'validator_key.json'), 'utf-8')), validatorKey);
+    } finally {
+        await homeDir.cleanup();
+    }
+});
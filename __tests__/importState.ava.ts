@@ -0,0 +1,90 @@
+import test from 'ava';
+import { fetchImportedRecords } from '../src/sandbox/importState';
+import { codeHash } from '../src/sandbox/records';
+import { SandboxErrors, TypedError } from '../src/errors';
+import { startRpcServer } from './rpcServer';
+
+const CODE = Buffer.from('fake wasm');
+const STATE: Record<string, string> = { 'STATE': 'root', 'balances:alice': '10', 'balances:bob': '20' };
+
+// Answers queries like a live network with a single contract account `token.near`
+function respond(method: string, params: any): unknown {
+    if (method !== 'query') {
+        return { error: { name: 'HANDLER_ERROR', cause: { name: 'PARSE_ERROR' } } };
+    }
+    const base = { block_height: params.block_id ?? 100, block_hash: 'hash' };
+    if (params.account_id !== 'token.near') {
+        return { error: { name: 'HANDLER_ERROR', cause: { name: 'UNKNOWN_ACCOUNT' } } };
+    }
+    switch (params.request_type) {
+        case 'view_account':
+            return { result: { ...base, amount: '1000', locked: '0', code_hash: codeHash(CODE), storage_usage: 500 } };
+        case 'view_access_key_list':
+            return {
+                result: {
+                    ...base, keys: [{
+                        public_key: 'ed25519:5BGSaf6YjVm7565VzWQHNxoyEjwr3jUpRJSGjREvU9dB',
+                        access_key: { nonce: 7, permission: { FunctionCall: { allowance: null, receiver_id: 'token.near', method_names: [] } } },
+                    }],
+                },
+            };
+        case 'view_code':
+            return { result: { ...base, code_base64: CODE.toString('base64'), hash: codeHash(CODE) } };
+        case 'view_state': {
+            const prefix = Buffer.from(params.prefix_base64, 'base64').toString();
+            const values = Object.entries(STATE)
+                .filter(([key]) => key.startsWith(prefix))
+                .map(([key, value]) => ({ key: Buffer.from(key).toString('base64'), value: Buffer.from(value).toString('base64') }));
+            return { result: { ...base, values } };
+        }
+        default:
+            return { error: { name: 'HANDLER_ERROR', cause: { name: 'PARSE_ERROR' } } };
+    }
+}
+
+test('fetchImportedRecords converts account, keys, code and filtered state into records', async (t) => {
+    const requests: any[] = [];
+    const { server, url } = await startRpcServer((method, params) => {
+        requests.push(params);
+        return respond(method, params);
+    });
+    try {
+        const records = await fetchImportedRecords({ rpcUrl: url, accounts: ['token.near'], blockHeight: 42, prefixes: ['balances:'] });
+
+        t.deepEqual(records[0], {
+            Account: { accountId: 'token.near', balance: BigInt(1000), locked: BigInt(0), codeHash: codeHash(CODE), storageUsage: 500 },
+        });
+        t.deepEqual(records[1], {
+            AccessKey: {
+                accountId: 'token.near',
+                publicKey: 'ed25519:5BGSaf6YjVm7565VzWQHNxoyEjwr3jUpRJSGjREvU9dB',
+                nonce: 7,
+                permission: { receiverId: 'token.near', methodNames: [], allowance: null },
+            },
+        });
+        t.deepEqual(records[2], { Contract: { accountId: 'token.near', code: CODE } });
+        t.deepEqual(records.slice(3).map(record => 'Data' in record && Buffer.from(record.Data.key).toString()), ['balances:alice', 'balances:bob']);
+        t.true(requests.every(params => params.block_id === 42));
+    } finally {
+        server.close();
+    }
+});
+
+test('fetchImportedRecords enforces the state size limit and reports unknown accounts', async (t) => {
+    const { server, url } = await startRpcServer(respond);
+    try {
+        const tooLarge = await t.throwsAsync(
+            () => fetchImportedRecords({ rpcUrl: url, accounts: [{ accountId: 'token.near' }], maxStateBytes: 20 }),
+            { instanceOf: TypedError, message: /exceeds the limit of 20 bytes/ }
+        );
+        t.is(tooLarge?.type, SandboxErrors.ImportFailed);
+
+        const unknown = await t.throwsAsync(
+            () => fetchImportedRecords({ rpcUrl: url, accounts: ['missing.near'] }),
+            { instanceOf: TypedError, message: /Failed to import missing.near/ }
+        );
+        t.is(unknown?.type, SandboxErrors.ImportFailed);
+    } finally {
+        server.close();
+    }
+});
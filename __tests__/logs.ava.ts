@@ -0,0 +1,71 @@
+import test from 'ava';
+import { spawn } from 'child_process';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { dir } from 'tmp-promise';
+import { parseLogLine, SandboxLogLine, SandboxLogs } from '../src/sandbox/logs';
+
+test('parseLogLine parses nearcore log lines', (t) => {
+    t.deepEqual(
+        parseLogLine('\u001b[2m2024-05-01T12:00:00.123456Z\u001b[0m \u001b[32m INFO\u001b[0m stats: #      12 Downloading headers', 'stderr'),
+        {
+            timestamp: '2024-05-01T12:00:00.123456Z',
+            level: 'INFO',
+            target: 'stats',
+            message: '#      12 Downloading headers',
+            raw: '2024-05-01T12:00:00.123456Z  INFO stats: #      12 Downloading headers',
+            stream: 'stderr',
+        }
+    );
+    t.deepEqual(parseLogLine('plain output', 'stdout'), { message: 'plain output', raw: 'plain output', stream: 'stdout' });
+});
+
+test('SandboxLogs keeps the most recent lines and forwards them', async (t) => {
+    const logDir = await dir({ unsafeCleanup: true });
+    const received: SandboxLogLine[] = [];
+    const logs = new SandboxLogs({ bufferSize: 3, file: join(logDir.path, 'sandbox.log'), onLog: line => received.push(line) });
+    try {
+        const streamed: string[] = [];
+        const streaming = (async () => {
+            for await (const line of logs.stream()) streamed.push(line.message);
+        })();
+
+        const child = spawn(process.execPath, ['-e', `
+            for (let i = 1; i <= 5; i++) console.error('2024-05-01T12:00:00.000000Z  WARN client: line ' + i);
+            console.log('done');
+        `], { stdio: ['ignore', 'pipe', 'pipe'] });
+        logs.attach(child);
+        await new Promise(resolve => child.on('close', resolve));
+        await logs.close();
+        await streaming;
+
+        t.is(received.length, 6);
+        t.is(streamed.length, 6);
+        t.deepEqual(logs.lines(), received.slice(-3));
+        t.is((await readFile(join(logDir.path, 'sandbox.log'), 'utf-8')).split('\n').filter(Boolean).length, 6);
+    } finally {
+        await logDir.cleanup();
+    }
+});
+
+test('SandboxLogs survives an unwritable file and lines after close()', async (t) => {
+    const logDir = await dir({ unsafeCleanup: true });
+    try {
+        const unwritable = new SandboxLogs({ file: join(logDir.path, 'missing', 'sandbox.log') });
+        await t.throwsAsync(unwritable.open(), { message: /ENOENT/ });
+
+        const logs = new SandboxLogs({ file: join(logDir.path, 'sandbox.log') });
+        await logs.open();
+        const child = spawn(process.execPath, ['-e', `setTimeout(() => console.log('late line'), 200)`], { stdio: ['ignore', 'pipe', 'pipe'] });
+        unwritable.attach(child);
+        logs.attach(child);
+        await logs.close();
+        await new Promise(resolve => child.on('close', resolve));
+
+        t.deepEqual(logs.lines(), []);
+        t.deepEqual(unwritable.lines().map(line => line.message), ['late line']);
+        await unwritable.close();
+    } finally {
+        await logDir.cleanup();
+    }
+});
@@ -0,0 +1,46 @@
+import test from 'ava';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readdir, rm } from 'fs/promises';
+import { createServer, Server } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { once } from 'events';
+import { Sandbox } from '../src/sandbox/Sandbox';
+import { isInitializedHomeDir } from '../src/sandbox/sandboxUtils';
+import { writeFakeBinary } from './fakeBinary';
+
+let dir: string;
+let busy: Server;
+let busyPort: number;
+
+test.before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'near-sandbox-home-'));
+    process.env['NEAR_SANDBOX_BIN_PATH'] = await writeFakeBinary(dir);
+    busy = createServer().listen(0, '127.0.0.1');
+    await once(busy, 'listening');
+    busyPort = (busy.address() as { port: number }).port;
+});
+
+test.after.always(async () => {
+    busy.close();
+    await rm(dir, { recursive: true, force: true });
+});
+
+test('a failed start leaves no half-initialized home directory behind', async t => {
+    const homeDir = join(dir, 'new-home');
+    await t.throwsAsync(Sandbox.start({ homeDir, config: { rpcPort: busyPort } }));
+    t.false(existsSync(homeDir));
+
+    const existingDir = join(dir, 'existing-home');
+    await mkdir(existingDir);
+    await t.throwsAsync(Sandbox.start({ homeDir: existingDir, config: { rpcPort: busyPort } }));
+    t.false(await isInitializedHomeDir(existingDir));
+
+    // the next start initializes the directory with the config
+    const sandbox = await Sandbox.start({ homeDir: existingDir });
+    try {
+        t.true((await readdir(existingDir)).includes('sandbox.json'));
+    } finally {
+        await sandbox.tearDown();
+    }
+});
@@ -0,0 +1,78 @@
+import test from 'ava';
+import { spawn } from 'child_process';
+import { once } from 'events';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import * as net from 'net';
+import { SandboxErrors, TcpAndLockErrors, TypedError } from '../src/errors';
+import { acquireOrLockPort, connectableHost, portLockFilePath, releasePortLock, rpcSocket } from '../src/sandbox/sandboxUtils';
+
+async function freePort(): Promise<number> {
+    const server = net.createServer().listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    const { port } = server.address() as net.AddressInfo;
+    await new Promise(resolve => server.close(resolve));
+    return port;
+}
+
+// Leaves a lock on `port` like one held by process `pid`
+async function fakeLock(port: number, pid: number): Promise<void> {
+    const lockFilePath = portLockFilePath(port);
+    await mkdir(`${lockFilePath}.lock`, { recursive: true });
+    await writeFile(lockFilePath, JSON.stringify({ pid }));
+}
+
+test('rpcSocket and connectableHost handle IPv4, IPv6 and wildcard hosts', t => {
+    t.is(rpcSocket(3030), '127.0.0.1:3030');
+    t.is(rpcSocket(3030, '0.0.0.0'), '0.0.0.0:3030');
+    t.is(rpcSocket(3030, '::'), '[::]:3030');
+    t.is(rpcSocket(3030, '[::1]'), '[::1]:3030');
+    t.is(connectableHost('0.0.0.0'), '127.0.0.1');
+    t.is(connectableHost('::'), '::1');
+    t.is(connectableHost('[::]'), '::1');
+    t.is(connectableHost('10.0.0.5'), '10.0.0.5');
+});
+
+test('ports are picked from the range and their lock files removed on release', async t => {
+    const min = await freePort();
+    const { port, lockFilePath } = await acquireOrLockPort(undefined, { range: [min, min + 20] });
+    t.true(port >= min && port <= min + 20);
+    t.deepEqual(JSON.parse(await readFile(lockFilePath, 'utf-8')), { pid: process.pid });
+    t.true(existsSync(`${lockFilePath}.lock`));
+
+    await releasePortLock(lockFilePath);
+    t.false(existsSync(lockFilePath));
+    t.false(existsSync(`${lockFilePath}.lock`));
+
+    const error = await t.throwsAsync(acquireOrLockPort(undefined, { range: [min + 20, min] }), { instanceOf: TypedError });
+    t.is(error?.type, SandboxErrors.InvalidConfig);
+});
+
+test('a lock left by a dead process is taken over, one of a live process is not', async t => {
+    const dead = spawn(process.execPath, ['-e', '']);
+    await once(dead, 'exit');
+    const stalePort = await freePort();
+    await fakeLock(stalePort, dead.pid!);
+    const { lockFilePath } = await acquireOrLockPort(stalePort);
+    t.deepEqual(JSON.parse(await readFile(lockFilePath, 'utf-8')), { pid: process.pid });
+    await releasePortLock(lockFilePath);
+
+    const live = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 60000)']);
+    t.teardown(() => live.kill());
+    const lockedPort = await freePort();
+    await fakeLock(lockedPort, live.pid!);
+    const error = await t.throwsAsync(acquireOrLockPort(lockedPort), { instanceOf: TypedError });
+    t.is(error?.type, TcpAndLockErrors.LockFailed);
+    await rm(`${portLockFilePath(lockedPort)}.lock`, { recursive: true, force: true });
+    await rm(portLockFilePath(lockedPort), { force: true });
+});
+
+test('a port bound by a process without a lock is reported as not available', async t => {
+    const server = net.createServer().listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    t.teardown(() => server.close());
+    const { port } = server.address() as net.AddressInfo;
+    const error = await t.throwsAsync(acquireOrLockPort(port), { instanceOf: TypedError });
+    t.is(error?.type, TcpAndLockErrors.PortNotAvailable);
+    t.false(existsSync(portLockFilePath(port)));
+});
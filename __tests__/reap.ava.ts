@@ -0,0 +1,164 @@
+import test from 'ava';
+import { ChildProcess, spawn } from 'child_process';
+import { existsSync, mkdtempSync, realpathSync } from 'fs';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { once } from 'events';
+import { runReapCommand } from '../src/cli/reap';
+import { Sandbox } from '../src/sandbox/Sandbox';
+import { isPidAlive, portLockFilePath } from '../src/sandbox/sandboxUtils';
+import { writeFakeBinary } from './fakeBinary';
+
+// Sandboxes of this file live in their own temporary directory, so reaping doesn't touch those of other tests.
+// The tests run serially because each one reaps the whole directory.
+const dir = realpathSync(mkdtempSync(join(tmpdir(), 'near-sandbox-reap-')));
+process.env['TMPDIR'] = dir;
+
+const nodes: ChildProcess[] = [];
+let binary: string;
+
+test.before(async () => {
+    binary = await writeFakeBinary(await makeDir('bin'));
+    process.env['NEAR_SANDBOX_BIN_PATH'] = binary;
+});
+
+test.after.always(async () => {
+    nodes.forEach(node => node.kill('SIGKILL'));
+    await rm(dir, { recursive: true, force: true });
+});
+
+async function makeDir(name: string): Promise<string> {
+    const path = join(dir, name);
+    await mkdir(path, { recursive: true });
+    return path;
+}
+
+// PID of a process that has already exited
+async function deadPid(): Promise<number> {
+    const child = spawn(process.execPath, ['-e', '']);
+    await once(child, 'exit');
+    return child.pid!;
+}
+
+// A temporary home directory like the ones of `Sandbox.start()`, owned by `ownerPid`
+async function homeDir(name: string, ownerPid?: number, detached?: boolean): Promise<string> {
+    const path = await makeDir(`near-sandbox-01-01_00-00-${name}`);
+    if (ownerPid !== undefined) {
+        await writeFile(join(path, 'near-sandbox-meta.json'), JSON.stringify({ version: '2.10.7', rpcPort: 1, netPort: 2, ownerPid, detached }));
+    }
+    return path;
+}
+
+function runNode(home: string, rpcPort: number): ChildProcess {
+    const node = spawn(binary, ['--home', home, 'run', '--rpc-addr', `127.0.0.1:${rpcPort}`, '--network-addr', '127.0.0.1:0'], { stdio: 'ignore' });
+    nodes.push(node);
+    return node;
+}
+
+async function portLock(port: number, pid: number): Promise<string> {
+    const path = portLockFilePath(port);
+    await writeFile(path, JSON.stringify({ pid }));
+    await mkdir(`${path}.lock`);
+    return path;
+}
+
+// Whether `pid` is gone within a few seconds, a node killed by an exiting owner is reaped by init
+async function exited(pid: number): Promise<boolean> {
+    for (let i = 0; i < 50 && isPidAlive(pid); i++) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    return !isPidAlive(pid);
+}
+
+// Starts a process that starts a sandbox after running `setup`, and resolves with what it started
+async function startOwner(setup = ''): Promise<{ owner: ChildProcess; started: { homeDir: string; pid: number; lock: string } }> {
+    const script = `
+        const { Sandbox } = require('./src/sandbox/Sandbox');
+        ${setup}
+        Sandbox.start({}).then(sandbox => console.log(JSON.stringify({ homeDir: sandbox.homeDir, pid: sandbox.pid, lock: sandbox.rpcPortLockPath })));
+    `;
+    const owner = spawn(process.execPath, ['-r', 'ts-node/register', '-e', script], {
+        env: { ...process.env, TS_NODE_TRANSPILE_ONLY: '1' },
+        stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    const [chunk] = await once(owner.stdout!, 'data');
+    return { owner, started: JSON.parse(String(chunk)) };
+}
+
+test.serial('an interrupted process tears down its sandboxes', async t => {
+    const { owner, started } = await startOwner();
+    t.true(existsSync(started.homeDir));
+    t.true(existsSync(`${started.lock}.lock`));
+
+    owner.kill('SIGINT');
+    // the process still ends the way the signal would have ended it
+    const [code, signal] = await once(owner, 'exit');
+    t.deepEqual([code, signal], [null, 'SIGINT']);
+    t.true(await exited(started.pid));
+    t.false(existsSync(started.homeDir));
+    t.false(existsSync(`${started.lock}.lock`));
+});
+
+test.serial('a process with its own signal listener decides when to exit', async t => {
+    const { owner, started } = await startOwner(`process.on('SIGINT', () => setTimeout(() => process.exit(3), 500));`);
+    owner.kill('SIGINT');
+    const [code] = await once(owner, 'exit');
+    t.is(code, 3);
+    t.true(await exited(started.pid));
+    t.false(existsSync(started.homeDir));
+    t.false(existsSync(`${started.lock}.lock`));
+});
+
+test.serial('Sandbox.reap() stops orphaned nodes and removes what exited owners left', async t => {
+    const dead = await deadPid();
+    const orphanHome = await homeDir('orphan', dead);
+    const orphan = runNode(orphanHome, 0);
+    const detachedHome = await homeDir('detached', dead, true);
+    const detached = runNode(detachedHome, 45011);
+    const detachedLock = await portLock(45011, dead);
+    const abandonedHome = await homeDir('abandoned', dead);
+    const liveHome = await homeDir('live', process.pid);
+    const initializingHome = await homeDir('initializing');
+    const abandonedLock = await portLock(45012, dead);
+    const liveLock = await portLock(45013, process.pid);
+    // let the nodes start
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    const expected = {
+        processes: [orphan.pid!],
+        homeDirs: [abandonedHome, orphanHome],
+        lockFiles: [abandonedLock],
+    };
+    const dryRun = await Sandbox.reap({ dryRun: true });
+    t.deepEqual({ ...dryRun, homeDirs: dryRun.homeDirs.sort() }, expected);
+    t.true(isPidAlive(orphan.pid!));
+    t.true(existsSync(abandonedHome));
+
+    const result = await Sandbox.reap();
+    t.deepEqual({ ...result, homeDirs: result.homeDirs.sort() }, expected);
+    t.false(isPidAlive(orphan.pid!));
+    t.false(existsSync(orphanHome));
+    t.false(existsSync(abandonedHome));
+    t.false(existsSync(abandonedLock));
+    t.false(existsSync(`${abandonedLock}.lock`));
+    t.true(isPidAlive(detached.pid!));
+    for (const kept of [detachedHome, detachedLock, liveHome, initializingHome, liveLock]) {
+        t.true(existsSync(kept), kept);
+    }
+});
+
+test.serial('near-sandbox reap prints what it cleans up', async t => {
+    const lock = await portLock(45014, await deadPid());
+    const lines: string[] = [];
+    const log = (line: string) => lines.push(line);
+
+    t.is(await runReapCommand(['--dry-run'], log), 0);
+    t.deepEqual(lines, [`Would remove port lock ${lock}`]);
+    t.true(existsSync(lock));
+
+    lines.length = 0;
+    t.is(await runReapCommand([], log), 0);
+    t.deepEqual(lines, [`Removed port lock ${lock}`]);
+    t.is(await runReapCommand(['--force'], log), 1);
+});
@@ -0,0 +1,42 @@
+import test from 'ava';
+import { SandboxRpcClient } from '../src/sandbox/rpc';
+import { RpcErrors, SandboxErrors, TypedError } from '../src/errors';
+import { startRpcServer } from './rpcServer';
+
+test('SandboxRpcClient sends typed queries with optimistic finality by default', async (t) => {
+    const requests: { method: string; params: any }[] = [];
+    const { server, url } = await startRpcServer((method, params) => {
+        requests.push({ method, params });
+        return { result: { amount: '10', locked: '0', code_hash: '11111111111111111111111111111111', storage_usage: 182, block_height: 1, block_hash: 'hash' } };
+    });
+    try {
+        const client = new SandboxRpcClient(url);
+        const account = await client.viewAccount('alice.sandbox');
+        t.is(account.amount, '10');
+
+        await client.viewState('alice.sandbox', 'STATE', { blockId: 5 });
+        await client.callFunction('alice.sandbox', 'get', { key: 'a' });
+
+        t.deepEqual(requests[0], { method: 'query', params: { request_type: 'view_account', account_id: 'alice.sandbox', finality: 'optimistic' } });
+        t.deepEqual(requests[1]!.params, { request_type: 'view_state', account_id: 'alice.sandbox', prefix_base64: Buffer.from('STATE').toString('base64'), block_id: 5 });
+        t.is(Buffer.from(requests[2]!.params.args_base64, 'base64').toString(), '{"key":"a"}');
+    } finally {
+        server.close();
+    }
+});
+
+test('SandboxRpcClient maps RPC errors into TypedError', async (t) => {
+    const { server, url } = await startRpcServer((method) => method === 'query'
+        ? { error: { name: 'HANDLER_ERROR', cause: { name: 'UNKNOWN_ACCOUNT', info: {} }, code: -32000, message: 'Server error' } }
+        : { error: { name: 'HANDLER_ERROR', cause: { name: 'SOMETHING_NEW' } } });
+    try {
+        const client = new SandboxRpcClient(url);
+        const unknownAccount = await t.throwsAsync(() => client.viewAccount('missing.sandbox'), { instanceOf: TypedError });
+        t.is(unknownAccount?.type, RpcErrors.UnknownAccount);
+
+        const unknownError = await t.throwsAsync(() => client.status(), { instanceOf: TypedError });
+        t.is(unknownError?.type, SandboxErrors.RpcRequestFailed);
+    } finally {
+        server.close();
+    }
+});
@@ -0,0 +1,17 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+
+// Starts a stand-in JSON-RPC server that answers every request with `respond(method, params)`
+export async function startRpcServer(respond: (method: string, params: any) => unknown): Promise<{ server: Server; url: string }> {
+    const server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const { id, method, params } = JSON.parse(body);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ jsonrpc: '2.0', id, ...respond(method, params) as object }));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
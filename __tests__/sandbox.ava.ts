@@ -1,11 +1,14 @@
 import test from 'ava';
 import * as net from 'net';
 import { existsSync } from "fs";
+import { readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
 import { Sandbox } from '../src/sandbox/Sandbox';
 import { GenesisAccount, SandboxConfig } from '../src/sandbox/config';
 import { join } from 'path';
 import got from 'got';
 import { KeyPair } from '@near-js/crypto';
+import { RpcErrors, SandboxCrashError, SandboxErrors, TypedError } from '../src/errors';
 
 test('Sandbox.start() returns a valid instance with default config and version', async (t) => {
     const sandbox = await Sandbox.start({});
@@ -126,3 +129,255 @@ test('Sandbox throws if provided rpcPort is already in use', async (t) => {
         await new Promise<void>((resolve) => server.close(() => resolve()));
     }
 });
+
+test('Sandbox.patchState() overwrites accounts, keys, code and storage', async (t) => {
+    const sandbox = await Sandbox.start({});
+    try {
+        const keyPair = KeyPair.fromRandom("ED25519");
+        const wasm = join(__dirname, '..', 'node_modules', 'near-hello', 'dist', 'main.wasm');
+        await sandbox.patchState([
+            { Account: { accountId: 'patched.sandbox', balance: BigInt(10) ** BigInt(24) } },
+            { AccessKey: { accountId: 'patched.sandbox', publicKey: keyPair.getPublicKey().toString() } },
+            { Contract: { accountId: 'patched.sandbox', code: wasm } },
+            { Data: { accountId: 'patched.sandbox', key: 'STATE', value: 'value' } },
+        ]);
+
+        const { result } = await got.post(sandbox.rpcUrl, {
+            json: {
+                jsonrpc: '2.0', id: 'dontcare', method: 'query',
+                params: { request_type: 'view_state', finality: 'optimistic', account_id: 'patched.sandbox', prefix_base64: '' },
+            },
+        }).json<{ result: { values: { key: string; value: string }[] } }>();
+        t.deepEqual(result.values.map(({ key, value }) => ({ key, value })), [{ key: Buffer.from('STATE').toString('base64'), value: Buffer.from('value').toString('base64') }]);
+    } finally {
+        await sandbox.tearDown();
+    }
+});
+
+test('Sandbox.patchState() surfaces RPC errors as TypedError', async (t) => {
+    const sandbox = await Sandbox.start({});
+    try {
+        await t.throwsAsync(
+            () => sandbox.patchState([{ Contract: { accountId: 'missing.sandbox', code: new Uint8Array([0]) } }]),
+            { instanceOf: TypedError, message: /UNKNOWN_ACCOUNT/ }
+        );
+        // the node itself rejects a record it can't parse
+        const error = await t.throwsAsync<TypedError>(
+            () => sandbox.patchState([{ AccessKey: { accountId: 'sandbox', publicKey: 'ed25519:not-a-key' } }]),
+            { instanceOf: TypedError, message: /RPC request 'sandbox_patch_state' failed with PARSE_ERROR/ }
+        );
+        t.is(error?.type, RpcErrors.ParseError);
+    } finally {
+        await sandbox.tearDown();
+    }
+});
+
+test('Sandbox.fastForward() and advanceTime() move the head height forward', async (t) => {
+    const sandbox = await Sandbox.start({});
+    const headHeight = async () => {
+        const status = await got(`${sandbox.rpcUrl}/status`).json<{ sync_info: { latest_block_height: number } }>();
+        return status.sync_info.latest_block_height;
+    };
+    try {
+        const before = await headHeight();
+        await sandbox.fastForward(1000);
+        t.true(await headHeight() >= before + 1000);
+
+        const afterFastForward = await headHeight();
+        await sandbox.advanceTime(60 * 1000);
+        t.true(await headHeight() > afterFastForward);
+
+        await t.throwsAsync(() => sandbox.fastForward(0), { instanceOf: TypedError });
+    } finally {
+        await sandbox.tearDown();
+    }
+});
+
+test('Sandbox.restore() rolls state back to a snapshot on the same rpcUrl', async (t) => {
+    const sandbox = await Sandbox.start({});
+    const viewBalance = async () => {
+        const { result } = await got.post(sandbox.rpcUrl, {
+            json: {
+                jsonrpc: '2.0', id: 'dontcare', method: 'query',
+                params: { request_type: 'view_account', finality: 'optimistic', account_id: 'sandbox' },
+            },
+        }).json<{ result: { amount: string } }>();
+        return result.amount;
+    };
+    try {
+        const initialBalance = await viewBalance();
+        const snapshot = await sandbox.snapshot();
+
+        await sandbox.patchState([{ Account: { accountId: 'sandbox', balance: BigInt(1) } }]);
+        t.is(await viewBalance(), '1');
+
+        const rpcUrl = sandbox.rpcUrl;
+        await sandbox.restore(snapshot);
+        t.is(sandbox.rpcUrl, rpcUrl);
+        t.is(await viewBalance(), initialBalance);
+    } finally {
+        await sandbox.tearDown();
+    }
+});
+
+test('Sandbox.start() after stop() keeps state and ports', async (t) => {
+    const sandbox = await Sandbox.start({});
+    try {
+        await sandbox.fastForward(100);
+        await sandbox.stop();
+        await t.throwsAsync(() => got(`${sandbox.rpcUrl}/status`), { message: /ECONNREFUSED/ });
+
+        await sandbox.start();
+        const status = await got(`${sandbox.rpcUrl}/status`).json<{ sync_info: { latest_block_height: number } }>();
+        t.true(status.sync_info.latest_block_height >= 100);
+
+        await sandbox.restart();
+        await t.notThrowsAsync(() => got(`${sandbox.rpcUrl}/status`));
+    } finally {
+        await sandbox.tearDown();
+    }
+});
+
+test('Sandbox.open() resumes a persistent home directory that tearDown() keeps', async (t) => {
+    const homeDir = join(tmpdir(), `near-sandbox-persistent-${Date.now()}`);
+    try {
+        const sandbox = await Sandbox.start({ homeDir });
+        await sandbox.patchState([{ Account: { accountId: 'persistent.sandbox', balance: BigInt(1) } }]);
+        await sandbox.tearDown();
+        t.true(existsSync(join(homeDir, 'config.json')));
+
+        const resumed = await Sandbox.open(homeDir);
+        try {
+            t.is(resumed.rpcUrl, sandbox.rpcUrl);
+            const { result } = await got.post(resumed.rpcUrl, {
+                json: {
+                    jsonrpc: '2.0', id: 'dontcare', method: 'query',
+                    params: { request_type: 'view_account', finality: 'optimistic', account_id: 'persistent.sandbox' },
+                },
+            }).json<{ result: { amount: string } }>();
+            t.is(result.amount, '1');
+        } finally {
+            await resumed.tearDown();
+        }
+    } finally {
+        await rm(homeDir, { recursive: true, force: true });
+    }
+});
+
+test('Sandbox.open() throws for a directory that is not initialized', async (t) => {
+    await t.throwsAsync(() => Sandbox.open(join(tmpdir(), 'not-a-sandbox-home')), { instanceOf: TypedError });
+});
+
+test('Sandbox exposes and exports keys of genesis accounts', async (t) => {
+    const keyPair = KeyPair.fromRandom("ED25519");
+    const sandbox = await Sandbox.start({
+        config: {
+            additionalAccounts: [
+                new GenesisAccount('alice', keyPair.getPublicKey().toString(), keyPair.toString(), BigInt(10) ** BigInt(24)),
+            ],
+        },
+    });
+    const credentialsDir = join(tmpdir(), `near-credentials-${Date.now()}`);
+    try {
+        t.deepEqual((await sandbox.accounts()).map(account => account.accountId), ['alice', 'sandbox']);
+        t.is((await sandbox.getKeyPair('alice')).privateKey, keyPair.toString());
+        await t.throwsAsync(() => sandbox.getKeyPair('bob'), { instanceOf: TypedError });
+
+        const paths = await sandbox.exportCredentials(credentialsDir);
+        t.deepEqual(paths, [join(credentialsDir, 'sandbox', 'alice.json'), join(credentialsDir, 'sandbox', 'sandbox.json')]);
+        const exported = JSON.parse(await readFile(paths[0]!, 'utf-8'));
+        t.is(exported.public_key, keyPair.getPublicKey().toString());
+    } finally {
+        await sandbox.tearDown();
+        await rm(credentialsDir, { recursive: true, force: true });
+    }
+});
+
+test('SandboxConfig.additionalContracts deploys contracts with storage at genesis', async (t) => {
+    const wasm = await readFile(join(__dirname, '..', 'node_modules', 'near-hello', 'dist', 'main.wasm'));
+    const sandbox = await Sandbox.start({
+        config: {
+            additionalContracts: [
+                { accountId: 'hello.sandbox', code: wasm, storage: { STATE: 'initial' } },
+            ],
+        },
+    });
+    try {
+        const code = await sandbox.rpc.viewCode('hello.sandbox');
+        t.deepEqual(Buffer.from(code.code_base64, 'base64'), wasm);
+
+        const account = await sandbox.rpc.viewAccount('hello.sandbox');
+        t.is(account.code_hash, code.hash);
+        t.is(account.storage_usage, 100 + wasm.length + 'STATE'.length + 'initial'.length + 40);
+
+        const state = await sandbox.rpc.viewState('hello.sandbox');
+        t.deepEqual(state.values.map(({ key, value }) => ({ key, value })), [
+            { key: Buffer.from('STATE').toString('base64'), value: Buffer.from('initial').toString('base64') },
+        ]);
+    } finally {
+        await sandbox.tearDown();
+    }
+});
+
+test('Sandbox captures node logs', async (t) => {
+    const sandbox = await Sandbox.start({ logs: { bufferSize: 50 } });
+    try {
+        await sandbox.fastForward(10);
+        const lines = sandbox.logs();
+        t.true(lines.length > 0 && lines.length <= 50);
+        t.true(lines.some(line => line.level !== undefined));
+    } finally {
+        await sandbox.tearDown();
+    }
+});
+
+test('Sandbox detects a crashed node', async (t) => {
+    const sandbox = await Sandbox.start({});
+    try {
+        t.true(sandbox.isRunning);
+        const crashed = new Promise<SandboxCrashError>(resolve => sandbox.once('crash', resolve));
+
+        process.kill(sandbox.pid!, 'SIGKILL');
+
+        const error = await crashed;
+        t.is(error.type, SandboxErrors.ProcessCrashed);
+        t.is(error.signal, 'SIGKILL');
+        t.deepEqual(await sandbox.exited, { code: null, signal: 'SIGKILL' });
+        t.false(sandbox.isRunning);
+        await t.throwsAsync(sandbox.fastForward(1));
+
+        // a crashed sandbox can be started again
+        await sandbox.start();
+        t.true(sandbox.isRunning);
+    } finally {
+        await sandbox.tearDown();
+    }
+});
+
+test('Sandbox.start() cleans up after a timeout or abort', async (t) => {
+    const rpcPort = 3060;
+    await t.throwsAsync(Sandbox.start({ config: { rpcPort }, timeoutMs: 2000, readyWhen: () => false }), {
+        instanceOf: TypedError,
+        message: /failed to become ready/,
+    });
+
+    const controller = new AbortController();
+    const error = await t.throwsAsync<TypedError>(Sandbox.start({
+        config: { rpcPort },
+        signal: controller.signal,
+        readyWhen: () => {
+            controller.abort();
+            return false;
+        },
+    }));
+    t.is(error?.type, SandboxErrors.Aborted);
+
+    // the port lock was released by both failed starts
+    const sandbox = await Sandbox.start({ config: { rpcPort }, readyWhen: 'firstBlock' });
+    try {
+        const status = await sandbox.rpc.status();
+        t.true(status.sync_info.latest_block_height > 0);
+    } finally {
+        await sandbox.tearDown();
+    }
+});
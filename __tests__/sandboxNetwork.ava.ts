@@ -0,0 +1,86 @@
+import test from 'ava';
+import { chmod, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SandboxNetwork, withNetworkValidators } from '../src/sandbox/SandboxNetwork';
+import { generateKeyFile } from '../src/sandbox/keys';
+import { DEFAULT_BALANCE } from '../src/sandbox/config';
+import { SandboxErrors, TypedError } from '../src/errors';
+import { KeyPair, KeyPairString } from '@near-js/crypto';
+
+test('withNetworkValidators stakes one account per validator key', async t => {
+    const genesis = {
+        total_supply: '1000',
+        num_block_producer_seats: 1,
+        num_block_producer_seats_per_shard: [1],
+        validators: [{ account_id: 'test.near', public_key: 'ed25519:old', amount: '50' }],
+        records: [{ Account: { account_id: 'test.near', account: { amount: '950', locked: '50', code_hash: '11111111111111111111111111111111', storage_usage: 182 } } }],
+    };
+    const keys = [generateKeyFile('node0'), generateKeyFile('node1')];
+
+    const result = await withNetworkValidators(genesis, keys);
+
+    t.deepEqual(result['validators'], keys.map(key => ({ account_id: key.account_id, public_key: key.public_key, amount: '50' })));
+    t.is(result['num_block_producer_seats'], 2);
+    t.deepEqual(result['num_block_producer_seats_per_shard'], [2]);
+    t.like(result['records'][0].Account.account, { amount: '1000', locked: '0' });
+    t.like(result['records'][1].Account, { account_id: 'node0', account: { locked: '50', amount: DEFAULT_BALANCE.toString() } });
+    t.is(result['total_supply'], (BigInt(1000) + BigInt(2) * (DEFAULT_BALANCE + BigInt(50))).toString());
+});
+
+test('generateKeyFile creates ed25519 keys in the nearcore layout', t => {
+    const key = generateKeyFile('node0');
+    t.is(key.account_id, 'node0');
+    t.regex(key.public_key, /^ed25519:[1-9A-HJ-NP-Za-km-z]{43,44}$/);
+    t.is(KeyPair.fromString(key.secret_key as KeyPairString).getPublicKey().toString(), key.public_key);
+});
+
+test('SandboxNetwork.start() rejects fixed ports', async t => {
+    await t.throwsAsync(SandboxNetwork.start({ config: { rpcPort: 3030 } as object }), { instanceOf: TypedError });
+    await t.throwsAsync(SandboxNetwork.start({ validators: 0 }), { instanceOf: TypedError });
+});
+
+test.serial('SandboxNetwork.start() aborts a node init in progress', async t => {
+    const dir = await mkdtemp(join(tmpdir(), 'near-sandbox-network-'));
+    const binPath = process.env['NEAR_SANDBOX_BIN_PATH'];
+    // `init` hangs until it is killed
+    process.env['NEAR_SANDBOX_BIN_PATH'] = join(dir, 'near-sandbox');
+    await writeFile(process.env['NEAR_SANDBOX_BIN_PATH'], '#!/bin/sh\n[ "$1" = --version ] && exit 0\nexec sleep 30\n');
+    await chmod(process.env['NEAR_SANDBOX_BIN_PATH'], 0o755);
+    try {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 200);
+        const error = await t.throwsAsync(SandboxNetwork.start({ signal: controller.signal }), { instanceOf: TypedError });
+        t.is(error?.type, SandboxErrors.Aborted);
+    } finally {
+        if (binPath === undefined) {
+            delete process.env['NEAR_SANDBOX_BIN_PATH'];
+        } else {
+            process.env['NEAR_SANDBOX_BIN_PATH'] = binPath;
+        }
+        await rm(dir, { recursive: true, force: true });
+    }
+});
+
+test('SandboxNetwork runs connected validators and observers', async t => {
+    const network = await SandboxNetwork.start({ validators: 2, observers: 1, readyWhen: 'firstBlock' });
+    try {
+        t.is(network.nodes.length, 3);
+        t.deepEqual(network.validatorAccountIds, ['node0', 'node1']);
+        t.is(new Set(network.nodes.map(node => node.rpcUrl)).size, 3);
+
+        for (const node of network.nodes) {
+            const status = await node.rpc.status();
+            t.deepEqual(status.validators.map(validator => validator.account_id).sort(), ['node0', 'node1']);
+        }
+        // observers follow the chain produced by the validators
+        const observer = network.observers[0]!;
+        const height = (await network.validators[0]!.rpc.status()).sync_info.latest_block_height;
+        for (let i = 0; i < 40 && (await observer.rpc.status()).sync_info.latest_block_height < height; i++) {
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+        t.true((await observer.rpc.status()).sync_info.latest_block_height >= height);
+    } finally {
+        await network.tearDown();
+    }
+});
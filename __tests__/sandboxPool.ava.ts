@@ -0,0 +1,39 @@
+import test from 'ava';
+import got from 'got';
+import { SandboxPool } from '../src/sandbox/SandboxPool';
+import { TypedError } from '../src/errors';
+
+test('SandboxPool hands out sandboxes and resets them on release', async (t) => {
+    const pool = await SandboxPool.create({ min: 1, max: 2 });
+    try {
+        t.is(pool.size, 1);
+        const first = await pool.acquire();
+        const second = await pool.acquire();
+        t.not(first.rpcUrl, second.rpcUrl);
+
+        await first.patchState([{ Account: { accountId: 'dirty.sandbox', balance: BigInt(1) } }]);
+        await pool.release(first);
+
+        const reused = await pool.acquire();
+        t.is(reused, first);
+        const response = await got.post(reused.rpcUrl, {
+            json: {
+                jsonrpc: '2.0', id: 'dontcare', method: 'query',
+                params: { request_type: 'view_account', finality: 'optimistic', account_id: 'dirty.sandbox' },
+            },
+        }).json<{ error?: unknown }>();
+        t.truthy(response.error);
+
+        await pool.release(reused);
+        await pool.release(second);
+    } finally {
+        await pool.close();
+    }
+});
+
+test('SandboxPool rejects fixed ports shared by several sandboxes', async (t) => {
+    await t.throwsAsync(
+        () => SandboxPool.create({ min: 1, max: 2, config: { rpcPort: 3060 } }),
+        { instanceOf: TypedError, message: /can't be shared/ }
+    );
+});
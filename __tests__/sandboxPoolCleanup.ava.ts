@@ -0,0 +1,72 @@
+import test from 'ava';
+import { mkdtempSync, realpathSync } from 'fs';
+import { readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SandboxPool } from '../src/sandbox/SandboxPool';
+import { SandboxErrors, TypedError } from '../src/errors';
+import { writeFakeBinary } from './fakeBinary';
+
+// Sandboxes of this file live in their own temporary directory, so leftovers can be counted.
+// The stand-in binary has no data directory, so snapshots of its sandboxes fail.
+const dir = realpathSync(mkdtempSync(join(tmpdir(), 'near-sandbox-pool-')));
+process.env['TMPDIR'] = dir;
+
+test.before(async () => {
+    process.env['NEAR_SANDBOX_BIN_PATH'] = await writeFakeBinary(dir);
+});
+
+test.after.always(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+// Home directories and port locks of sandboxes that were not torn down
+async function leftovers(): Promise<string[]> {
+    return (await readdir(dir)).filter(name => name.startsWith('near-sandbox-'));
+}
+
+test.serial('a sandbox whose snapshot fails is torn down', async t => {
+    const error = await t.throwsAsync(SandboxPool.create({ min: 1 }), { instanceOf: TypedError });
+    t.is(error?.type, SandboxErrors.SnapshotFailed);
+    t.deepEqual(await leftovers(), []);
+});
+
+test.serial('a sandbox that finishes starting after close() is torn down', async t => {
+    const pool = await SandboxPool.create({ min: 0, max: 1, reset: 'replace' });
+    const acquiring = pool.acquire();
+    await pool.close();
+    await t.throwsAsync(acquiring, { message: /closed/ });
+    t.deepEqual(await leftovers(), []);
+});
+
+test.serial('a replaced sandbox is counted once while it restarts', async t => {
+    const pool = await SandboxPool.create({ min: 1, max: 1, reset: 'replace' });
+    const sandbox = await pool.acquire();
+    let largest = pool.size;
+    const sampler = setInterval(() => largest = Math.max(largest, pool.size), 5);
+    try {
+        await pool.release(sandbox);
+    } finally {
+        clearInterval(sampler);
+    }
+    t.is(largest, 1);
+    t.is(pool.size, 1);
+    await pool.close();
+});
+
+test.serial('a failed background start is emitted as an error', async t => {
+    const pool = await SandboxPool.create({ min: 1, max: 2, reset: 'replace' });
+    const binPath = process.env['NEAR_SANDBOX_BIN_PATH'];
+    process.env['NEAR_SANDBOX_BIN_PATH'] = join(dir, 'missing-binary');
+    try {
+        const failed = new Promise<Error>(resolve => pool.once('error', resolve));
+        await pool.acquire();
+        const error = await failed;
+        t.true(error instanceof TypedError);
+        t.is(pool.size, 1);
+    } finally {
+        process.env['NEAR_SANDBOX_BIN_PATH'] = binPath;
+        await pool.close();
+    }
+    t.deepEqual(await leftovers(), []);
+});
@@ -0,0 +1,48 @@
+import test from 'ava';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Sandbox } from '../src/sandbox/Sandbox';
+import { SandboxErrors, TypedError } from '../src/errors';
+import { writeFakeBinary } from './fakeBinary';
+
+let dir: string;
+
+test.before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'near-sandbox-snapshot-'));
+    process.env['NEAR_SANDBOX_BIN_PATH'] = await writeFakeBinary(dir);
+});
+
+test.after.always(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+test('snapshot() and restore() of a stopped sandbox leave it stopped', async t => {
+    const sandbox = await Sandbox.start({});
+    try {
+        // the stand-in binary doesn't create a data directory itself
+        await mkdir(join(sandbox.homeDir, 'data'));
+        await sandbox.stop();
+
+        const snapshot = await sandbox.snapshot();
+        await sandbox.restore(snapshot);
+        t.false(sandbox.isRunning);
+
+        // the ports were not taken by a node started behind the sandbox's back
+        await sandbox.start();
+        t.true(sandbox.isRunning);
+    } finally {
+        await sandbox.tearDown();
+    }
+});
+
+test('a failed snapshot starts a running sandbox again and reports the failure', async t => {
+    const sandbox = await Sandbox.start({});
+    try {
+        const error = await t.throwsAsync(sandbox.snapshot(), { instanceOf: TypedError });
+        t.is(error?.type, SandboxErrors.SnapshotFailed);
+        t.true(sandbox.isRunning);
+    } finally {
+        await sandbox.tearDown();
+    }
+});
@@ -0,0 +1,88 @@
+import test from 'ava';
+import { DEFAULT_ACCOUNT_ID, GenesisAccount, validateSandboxConfig } from '../src/sandbox/config';
+import { generateKeyFile } from '../src/sandbox/keys';
+import { StateRecord } from '../src/sandbox/records';
+import { Sandbox } from '../src/sandbox/Sandbox';
+import { SandboxErrors, TypedError } from '../src/errors';
+
+function account(accountId: string, balance = BigInt(1)): GenesisAccount {
+    const key = generateKeyFile(accountId);
+    return new GenesisAccount(accountId, key.public_key, key.secret_key, balance);
+}
+
+test('validateSandboxConfig() accepts valid accounts, contracts and keys', t => {
+    const validatorKey = generateKeyFile('test.near');
+    t.notThrows(() => validateSandboxConfig({
+        additionalAccounts: [account('alice.sandbox'), account('bob-1_x.near'), GenesisAccount.createDefault('carol')],
+        additionalContracts: [
+            { accountId: 'alice.sandbox', code: new Uint8Array() },
+            { accountId: 'hello.sandbox', code: 'hello.wasm', balance: BigInt(5) },
+        ],
+        additionalGenesis: { validators: [{ account_id: 'test.near', public_key: validatorKey.public_key, amount: '1' }] },
+        nodeKey: { ...generateKeyFile() },
+        validatorKey: { ...validatorKey },
+        additionalRecords: [{ Account: { accountId: 'carol.sandbox', balance: BigInt(1) } }],
+        importFrom: { rpcUrl: 'https://rpc.mainnet.near.org', accounts: ['wrap.near', { accountId: 'usdt.near', prefixes: ['STATE'] }] },
+    }));
+    t.notThrows(() => validateSandboxConfig({}));
+    // the key of a node started from a dump with its own genesis validators
+    t.notThrows(() => validateSandboxConfig({ validatorKey: { ...validatorKey } }));
+});
+
+test('validateSandboxConfig() reports every problem with its field path', t => {
+    const alice = account('alice.sandbox');
+    const bob = account('bob.sandbox');
+    const validatorKey = generateKeyFile('test.near');
+    const error = t.throws(() => validateSandboxConfig({
+        additionalAccounts: [
+            alice,
+            new GenesisAccount('Not Valid', alice.publicKey, alice.privateKey, BigInt(1)),
+            new GenesisAccount('carol.sandbox', 'ed25519:abc', 'ed25519:0OIl', BigInt(1)),
+            new GenesisAccount('dave.sandbox', alice.publicKey, bob.privateKey, BigInt(0)),
+            account(DEFAULT_ACCOUNT_ID),
+            account('alice.sandbox', BigInt(-1)),
+        ],
+        additionalContracts: [
+            { accountId: 'alice.sandbox', code: 'a.wasm', balance: BigInt(1) },
+            { accountId: 'alice.sandbox', code: 'b.wasm' },
+        ],
+        nodeKey: { ...generateKeyFile(), public_key: alice.publicKey },
+        additionalRecords: [
+            { Account: { accountId: 'Not Valid', balance: BigInt(1) } },
+            { Data: { accountId: 'alice.sandbox', key: 'STATE' } } as unknown as StateRecord,
+        ],
+        importFrom: { rpcUrl: 'rpc.mainnet.near.org', accounts: ['wrap.near', { accountId: '' }], maxStateBytes: -1 },
+    }), { instanceOf: TypedError });
+    t.is(error?.type, SandboxErrors.InvalidConfig);
+    t.deepEqual(error?.message.split('\n'), [
+        'Invalid sandbox config:',
+        'additionalAccounts[1].accountId: Not Valid is not a valid account ID',
+        'additionalAccounts[2].publicKey: malformed ed25519 key, expected 32 base58 encoded bytes after "ed25519:"',
+        'additionalAccounts[2].privateKey: malformed ed25519 key, expected 64 base58 encoded bytes after "ed25519:"',
+        `additionalAccounts[3].privateKey: does not belong to additionalAccounts[3].publicKey ${alice.publicKey}`,
+        'additionalAccounts[3].balance: expected a positive amount of yoctoNEAR, got 0',
+        'additionalAccounts[4].accountId: sandbox is the built-in account, use another account ID',
+        'additionalAccounts[5].accountId: alice.sandbox is already defined by additionalAccounts[0]',
+        'additionalAccounts[5].balance: expected a positive amount of yoctoNEAR, got -1',
+        "additionalContracts[0].balance: can't be set for alice.sandbox, it is already a genesis account",
+        'additionalContracts[1].accountId: a contract for alice.sandbox is already defined by additionalContracts[0]',
+        `nodeKey.secret_key: does not belong to nodeKey.public_key ${alice.publicKey}`,
+        'additionalRecords[0].Account.accountId: Not Valid is not a valid account ID',
+        'additionalRecords[1].Data: expected key and value as bytes or strings',
+        'importFrom.rpcUrl: expected an http(s) URL, got rpc.mainnet.near.org',
+        'importFrom.accounts[1].accountId:  is not a valid account ID',
+        'importFrom.maxStateBytes: expected a non-negative integer, got -1',
+    ]);
+
+    const other = generateKeyFile('test.near');
+    t.throws(() => validateSandboxConfig({
+        additionalGenesis: { validators: [{ account_id: 'test.near', public_key: other.public_key, amount: '1' }] },
+        validatorKey: { ...validatorKey },
+    }), { message: /validatorKey: test\.near with ed25519:\w+ is not one of additionalGenesis\.validators/ });
+});
+
+test('Sandbox.start() rejects an invalid config before starting anything', async t => {
+    const error = await t.throwsAsync(Sandbox.start({ config: { additionalAccounts: [account('x')] } }), { instanceOf: TypedError });
+    t.is(error?.type, SandboxErrors.InvalidConfig);
+    t.regex(error!.message, /additionalAccounts\[0\]\.accountId: x is not a valid account ID/);
+});
@@ -0,0 +1,85 @@
+import test from 'ava';
+import { chmod, mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolveVersion, satisfies } from '../src/binary/version';
+import { DEFAULT_NEAR_SANDBOX_VERSION } from '../src/constants';
+import { BinaryErrors, TypedError } from '../src/errors';
+
+// every test file runs in its own worker, so the env only affects this file
+const binariesDir = join(tmpdir(), `near-sandbox-versions-${process.pid}`);
+process.env['DIR_TO_DOWNLOAD_BINARY'] = binariesDir;
+
+test.before(async () => {
+    for (const version of ['2.6.3', '2.8.0', '2.9.1', '2.10.0-rc.1']) {
+        const dir = join(binariesDir, `near-sandbox-${version}`);
+        await mkdir(dir, { recursive: true });
+        await writeFile(join(dir, 'near-sandbox'), '#!/bin/sh\n');
+        await chmod(join(dir, 'near-sandbox'), 0o755);
+    }
+});
+
+test.after.always(async () => {
+    await rm(binariesDir, { recursive: true, force: true });
+});
+
+test('satisfies supports the usual semver range syntax', t => {
+    const cases: [string, string, boolean][] = [
+        ['2.6.3', '^2.6', true],
+        ['3.0.0', '^2.6', false],
+        ['0.2.5', '^0.2.1', true],
+        ['0.3.0', '^0.2.1', false],
+        ['2.6.9', '~2.6.1', true],
+        ['2.7.0', '~2.6.1', false],
+        ['2.8.0', '>=2.7 <2.9', true],
+        ['2.9.0', '>=2.7 <2.9', false],
+        ['2.9.5', '2.8 - 2.9', true],
+        ['2.10.0', '2.8 - 2.9', false],
+        ['2.10.0', '2.x', true],
+        ['2.10.0', '>2.9', true],
+        ['2.9.9', '>2.9', false],
+        ['2.6.3', '1.x || 2.6.3', true],
+        ['2.6.3', '*', true],
+        ['2.10.0-rc.1', '^2.6', false],
+        ['2.10.0-rc.1', '>=2.10.0-rc.0', true],
+    ];
+    for (const [version, range, expected] of cases) {
+        t.is(satisfies(version, range), expected, `${version} ${range}`);
+    }
+    t.throws(() => satisfies('2.6.3', 'not-a-version'), { instanceOf: TypedError });
+});
+
+test.serial('resolveVersion resolves ranges and latest-cached against downloaded versions', async t => {
+    t.is(await resolveVersion('2.6.3'), '2.6.3');
+    t.is(await resolveVersion('v3.0.0'), '3.0.0');
+    t.is(await resolveVersion('~2.8'), '2.8.0');
+    t.is(await resolveVersion('>=2.6 <2.10'), '2.9.1');
+    t.is(await resolveVersion('latest-cached'), '2.9.1');
+    // the default version is always a candidate, it can be downloaded
+    t.is(await resolveVersion(DEFAULT_NEAR_SANDBOX_VERSION.split('.').slice(0, 2).join('.')), DEFAULT_NEAR_SANDBOX_VERSION);
+
+    const error = await t.throwsAsync<TypedError>(resolveVersion('^1.0'));
+    t.is(error?.type, BinaryErrors.BinaryNotFound);
+});
+
+test.serial('resolveVersion prefers the env variable, then the nearest pin file', async t => {
+    const project = await mkdtemp(join(tmpdir(), 'near-sandbox-project-'));
+    const nested = join(project, 'packages', 'app');
+    await mkdir(nested, { recursive: true });
+    try {
+        t.is(await resolveVersion(undefined, nested), DEFAULT_NEAR_SANDBOX_VERSION);
+
+        await writeFile(join(project, 'package.json'), JSON.stringify({ name: 'root', nearSandbox: { version: '~2.6' } }));
+        t.is(await resolveVersion(undefined, nested), '2.6.3');
+
+        await writeFile(join(nested, '.near-sandbox.json'), JSON.stringify({ version: '2.8.0' }));
+        t.is(await resolveVersion(undefined, nested), '2.8.0');
+
+        process.env['NEAR_SANDBOX_VERSION'] = 'latest-cached';
+        t.is(await resolveVersion(undefined, nested), '2.9.1');
+        t.is(await resolveVersion('2.6.3', nested), '2.6.3');
+    } finally {
+        delete process.env['NEAR_SANDBOX_VERSION'];
+        await rm(project, { recursive: true, force: true });
+    }
+});
@@ -1,61 +1,88 @@
-import { AWSUrl, fileExists } from "./binaryUtils";
+import { compareVersions, fileExists } from "./binaryUtils";
 import { join } from "path";
-import { promisify } from "util";
-import * as stream from "stream";
 import * as tar from "tar";
-import got from "got";
 import { existsSync } from "fs";
-import { lock } from "proper-lockfile";
+import { check, lock } from "proper-lockfile";
 import * as fs from "fs/promises";
 import { spawn } from "child_process";
 import { BinaryErrors, TcpAndLockErrors, TypedError } from "../errors";
 import { dir } from "tmp-promise";
+import { expectedChecksum, publishedChecksum, verifyChecksum } from "./checksum";
+import { artifactSources, DownloadOptions, fetchArtifact } from "./sources";
 
-const pipeline = promisify(stream.pipeline);
-
-export async function downloadBin(version: string): Promise<string> {
+export async function downloadBin(version: string, options: DownloadOptions = {}): Promise<string> {
     const existingFile = await checkForVersion(version);
     if (existingFile) {
         return existingFile;
     }
-    let url: string;
-    const fromEnv = process.env["SANDBOX_ARTIFACT_URL"];
-    if (fromEnv) {
-        url = fromEnv;
-    } else {
-        url = AWSUrl(version);
+    // sources are tried in order until one of them installs, see `artifactSources`
+    const failures: string[] = [];
+    let lastError: unknown;
+    let mismatch: TypedError | undefined;
+    for (const source of artifactSources(version)) {
+        try {
+            return await installFromSource(version, source, options);
+        } catch (error) {
+            // an aborted download doesn't fall back to the next source
+            if (options.signal?.aborted) {
+                throw error;
+            }
+            lastError = error;
+            failures.push(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+            if (error instanceof TypedError && error.type === BinaryErrors.ChecksumMismatch) {
+                mismatch = error;
+            }
+        }
+    }
+    // a tampered tarball is reported even if other sources failed for other reasons
+    if (mismatch) {
+        throw mismatch;
     }
+    throw new TypedError(`Failed to download binary. Check Url and version. Tried:\n${failures.join("\n")}`,
+        BinaryErrors.DownloadFailed,
+        lastError instanceof Error ? lastError : new Error(String(lastError)));
+}
+
+async function installFromSource(version: string, source: string, options: DownloadOptions): Promise<string> {
     const dirToDownload = await dir();
+    // the tarball is kept on disk until it is verified and extracted
+    const archivePath = join(await getDownloadPath(version), ARCHIVE_NAME);
     try {
-        await pipeline(
-            got.stream(url),
-            new stream.PassThrough(),
-            tar.x({ strip: 1, C: dirToDownload.path })
-        );
+        await fetchArtifact(source, archivePath, options);
+        const expected = await expectedChecksum(version) ?? await publishedChecksum(source);
+        if (!expected && /^https?:\/\//i.test(source)) {
+            options.onUnverified?.(`The near-sandbox ${version} download from ${source} can't be verified, no SHA-256 checksum is known for it. ` +
+                `Set NEAR_SANDBOX_BIN_SHA256 or NEAR_SANDBOX_CHECKSUMS to verify it.`);
+        }
+        await verifyChecksum(archivePath, expected);
+        await tar.x({ strip: 1, C: dirToDownload.path, file: archivePath });
 
         const pathToDownloadedFile = join(dirToDownload.path, "near-sandbox");
         const destinationFilePath = join(
             await getDownloadPath(version),
             "near-sandbox"
         ); await fs.rename(pathToDownloadedFile, destinationFilePath);
-
-    } catch (error) {
-        throw new TypedError(`Failed to download binary. Check Url and version`,
-            BinaryErrors.DownloadFailed,
-            error instanceof Error ? error : new Error(String(error)));
+        return destinationFilePath;
+    } finally {
+        await fs.rm(archivePath, { force: true });
     }
+}
 
-    const binPath = join(await getDownloadPath(version), "near-sandbox");
-    return binPath;
+const VERSION_DIR_PREFIX = "near-sandbox-";
+const ARCHIVE_NAME = "near-sandbox.tar.gz";
+
+// Returns the directory that holds a `near-sandbox-<version>` directory for every downloaded version:
+// DIR_TO_DOWNLOAD_BINARY if it is set, otherwise the bin directory of the project
+export function getBinariesDir(): string {
+    return process.env["DIR_TO_DOWNLOAD_BINARY"]
+        ?? join(__dirname, "..", "..", "bin");
 }
 
 // Returns a path to the directory where the binary will be downloaded
 // If the arg DIR_TO_DOWNLOAD_BINARY is not undefined directory will be created in the specified path
 // otherwise it will be created in the bin directory of the project
 async function getDownloadPath(version: string): Promise<string> {
-    const baseDir = process.env["DIR_TO_DOWNLOAD_BINARY"]
-        ?? join(__dirname, "..", "..", "bin");
-    const dirToDownloadBin = join(baseDir, `near-sandbox-${version}`);
+    const dirToDownloadBin = join(getBinariesDir(), `${VERSION_DIR_PREFIX}${version}`);
 
     await fs.mkdir(dirToDownloadBin, { recursive: true });
     return dirToDownloadBin;
@@ -131,7 +158,40 @@ export async function installable(binPath: string): Promise<(() => Promise<void>
     return release;
 }
 
-async function pingBin(binPath: string): Promise<void> {
+/*
+  * A binary downloaded to the binaries directory.
+  */
+export interface InstalledBinary {
+    version: string;
+    path: string;
+}
+
+// Lists the downloaded binaries, newest version first. Ignores NEAR_SANDBOX_BIN_PATH.
+export async function listInstalledBinaries(): Promise<InstalledBinary[]> {
+    const entries = await fs.readdir(getBinariesDir(), { withFileTypes: true }).catch(() => []);
+    const binaries: InstalledBinary[] = [];
+    for (const entry of entries) {
+        if (!entry.isDirectory() || !entry.name.startsWith(VERSION_DIR_PREFIX)) continue;
+        const path = join(getBinariesDir(), entry.name, "near-sandbox");
+        if (await fileExists(path)) {
+            binaries.push({ version: entry.name.slice(VERSION_DIR_PREFIX.length), path });
+        }
+    }
+    return binaries.sort((a, b) => compareVersions(b.version, a.version));
+}
+
+// Deletes the directory of a downloaded version, unless it is being installed right now
+export async function removeInstalledBinary(version: string): Promise<boolean> {
+    const versionDir = join(getBinariesDir(), `${VERSION_DIR_PREFIX}${version}`);
+    const lockPath = join(versionDir, "near-sandbox.lock");
+    if (existsSync(lockPath) && await check(lockPath).catch(() => false)) {
+        return false;
+    }
+    await fs.rm(versionDir, { recursive: true, force: true });
+    return true;
+}
+
+export async function pingBin(binPath: string): Promise<void> {
     return new Promise((resolve, reject) => {
         const proc = spawn(binPath, ["--version"]);
 
@@ -154,15 +214,17 @@ async function pingBin(binPath: string): Promise<void> {
     });
 }
 
-export async function ensureBinWithVersion(version: string): Promise<string> {
+export async function ensureBinWithVersion(version: string, options: DownloadOptions = {}): Promise<string> {
     let _binPath = await binPath(version);
     const release = await installable(_binPath);
 
     if (release) {
-        _binPath = await downloadBin(version);
-        process.env["NEAR_SANDBOX_BIN_PATH"] = _binPath;
-
-        await release();
+        try {
+            _binPath = await downloadBin(version, options);
+            process.env["NEAR_SANDBOX_BIN_PATH"] = _binPath;
+        } finally {
+            await release();
+        }
     }
     try {
         await pingBin(_binPath);
@@ -1,14 +1,20 @@
 import { fileExists } from "./binaryUtils";
 import { ChildProcess, spawn, StdioOptions } from "child_process";
 import { ensureBinWithVersion } from "./binary";
+import { DownloadOptions } from "./sources";
 import { join } from "path";
-import { TypedError } from "../errors";
 
-// initializes a sandbox with the specified version in the provided directory path
-export async function initConfigsWithVersion(version: string, dirPath: string): Promise<void> {
-    const bin = await ensureBinWithVersion(version);
+// initializes a sandbox with the specified version in the provided directory path.
+// Aborting `signal` stops the binary download or kills `init`.
+export async function initConfigsWithVersion(
+    version: string,
+    dirPath: string,
+    download?: DownloadOptions,
+    signal?: AbortSignal
+): Promise<void> {
+    const bin = await ensureBinWithVersion(version, signal ? { ...download, signal } : download);
 
-    const result = spawn(bin, ["--home", dirPath, "init", "--fast"], { stdio: [null, null, "pipe"] });
+    const result = spawn(bin, ["--home", dirPath, "init", "--fast"], { stdio: [null, null, "pipe"], signal });
     await new Promise<void>((resolve, reject) => {
         result.on("close", (code) => {
             if (code === 0) resolve();
@@ -28,17 +34,25 @@ export async function initConfigsWithVersion(version: string, dirPath: string):
     }
 }
 
+// Spawns the binary with the given args. Without explicit `stdio`, the output is inherited when
+// NEAR_ENABLE_SANDBOX_LOG=1 and only stderr is piped otherwise. A `detached` process gets its own process group
+// and doesn't keep the current process alive, so it can outlive it.
 export async function spawnWithArgsAndVersion(
     version: string,
     args: string[],
-    stdio: StdioOptions = ['ignore', 'ignore', 'pipe']
+    stdio?: StdioOptions,
+    detached: boolean = false
 ): Promise<ChildProcess> {
     const binPath = await ensureBinWithVersion(version);
 
     const isDebug = process.env['NEAR_ENABLE_SANDBOX_LOG'] === "1";
     const child = spawn(binPath, args, {
-        stdio: isDebug ? "inherit" : stdio
+        stdio: stdio ?? (isDebug ? "inherit" : ['ignore', 'ignore', 'pipe']),
+        detached,
     });
+    if (detached) {
+        child.unref();
+    }
 
 
     if (!isDebug) {
@@ -46,12 +60,6 @@ export async function spawnWithArgsAndVersion(
             console.error(`Sandbox stderr: ${chunk.toString()}`);
         });
     }
-    child.on("error", (err) => {
-        throw new TypedError(
-            `Failed to spawn sandbox process: ${err}`,
-            "UntypedError",
-            err instanceof Error ? err : new Error(String(err))
-        );
-    });
+    // Callers listen for `error` themselves, throwing here would escape as an uncaught exception
     return child;
 }
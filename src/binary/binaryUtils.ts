@@ -2,7 +2,7 @@ import { stat} from "fs/promises";
 import * as os from "os";
 import { DEFAULT_NEAR_SANDBOX_VERSION } from "../constants";
 
-function getPlatform() {
+export function getPlatform() {
     const type = os.type();  
     const arch = os.arch();
     if (type === "Linux" && arch === "x64") {
@@ -33,3 +33,24 @@ export async function fileExists(filePath: string): Promise<boolean> {
     return false;
   }
 }
+
+// Orders versions like "2.6.3" < "2.10.0" < "2.10.1-rc.1" < "2.10.1" by their numeric parts, falling back to string order
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split(/[.-]/);
+  const partsB = b.split(/[.-]/);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const partA = partsA[i];
+    const partB = partsB[i];
+    if (partA === undefined || partB === undefined) {
+      // "2.10" < "2.10.1", but a pre-release like "2.10.1-rc.1" comes before "2.10.1"
+      const extra = (partA ?? partB)!;
+      const longerIsGreater = !isNaN(Number(extra));
+      return (partA === undefined) === longerIsGreater ? -1 : 1;
+    }
+    const numA = Number(partA);
+    const numB = Number(partB);
+    const diff = !isNaN(numA) && !isNaN(numB) ? numA - numB : partA.localeCompare(partB);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
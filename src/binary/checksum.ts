@@ -0,0 +1,102 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { readFile, rm } from "fs/promises";
+import got from "got";
+import { DEFAULT_NEAR_SANDBOX_VERSION } from "../constants";
+import { BinaryErrors, TypedError } from "../errors";
+import { getPlatform } from "./binaryUtils";
+import { proxyAgent } from "./proxy";
+
+// how long to wait for a checksum published next to a tarball
+const PUBLISHED_CHECKSUM_TIMEOUT_MS = 10_000;
+
+/*
+  * SHA-256 checksums of the published `near-sandbox.tar.gz` tarballs, keyed by `<version>/<platform>-<arch>`
+  * the same way as the artifact URL, e.g. "2.10.7/Linux-x86_64". Versions missing here are verified against
+  * NEAR_SANDBOX_CHECKSUMS, NEAR_SANDBOX_BIN_SHA256 or a `.sha256` file published next to the tarball, and are
+  * installed with a warning passed to `DownloadOptions.onUnverified` if none of them is available.
+  */
+export const SANDBOX_CHECKSUMS: Record<string, string> = {};
+
+export function checksumKey(version: string): string {
+    const [platform, arch] = getPlatform();
+    return `${version}/${platform}-${arch}`;
+}
+
+// Returns the expected SHA-256 of the tarball of `version`, in order of precedence:
+// NEAR_SANDBOX_BIN_SHA256, the manifest file at NEAR_SANDBOX_CHECKSUMS, then the shipped `SANDBOX_CHECKSUMS`
+export async function expectedChecksum(version: string): Promise<string | undefined> {
+    const pinned = process.env["NEAR_SANDBOX_BIN_SHA256"];
+    if (pinned && version === pinnedChecksumVersion()) {
+        return pinned.trim().toLowerCase();
+    }
+
+    const key = checksumKey(version);
+    const manifestPath = process.env["NEAR_SANDBOX_CHECKSUMS"];
+    if (manifestPath) {
+        let manifest: Record<string, string>;
+        try {
+            manifest = JSON.parse(await readFile(manifestPath, "utf-8"));
+        } catch (error) {
+            throw new TypedError(`Failed to read checksum manifest ${manifestPath}`,
+                BinaryErrors.InstallationFailed,
+                error instanceof Error ? error : new Error(String(error)));
+        }
+        if (manifest[key]) {
+            return manifest[key]!.toLowerCase();
+        }
+    }
+    return SANDBOX_CHECKSUMS[key]?.toLowerCase();
+}
+
+// NEAR_SANDBOX_BIN_SHA256 only verifies the version pinned by NEAR_SANDBOX_VERSION, or the default version without it
+function pinnedChecksumVersion(): string {
+    return process.env["NEAR_SANDBOX_VERSION"]?.trim().replace(/^v/, "") || DEFAULT_NEAR_SANDBOX_VERSION;
+}
+
+/**
+ * Fetches the SHA-256 published next to an http(s) tarball as `<url>.sha256`, either in the `sha256sum` format
+ * or as a bare hash. Returns undefined for other sources or if no checksum is published.
+ */
+export async function publishedChecksum(source: string): Promise<string | undefined> {
+    if (!/^https?:\/\//i.test(source)) {
+        return undefined;
+    }
+    const url = new URL(source);
+    url.pathname += ".sha256";
+    try {
+        const body = await got(url.toString(), {
+            agent: proxyAgent(url.toString()),
+            retry: 0,
+            timeout: PUBLISHED_CHECKSUM_TIMEOUT_MS,
+        }).text();
+        return /^[0-9a-f]{64}\b/i.exec(body.trim())?.[0].toLowerCase();
+    } catch {
+        return undefined;
+    }
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+    const hash = createHash("sha256");
+    for await (const chunk of createReadStream(filePath)) {
+        hash.update(chunk);
+    }
+    return hash.digest("hex");
+}
+
+/**
+ * Checks the SHA-256 of a downloaded tarball. The file is deleted if it doesn't match.
+ *
+ * @throws {TypedError} `BinaryErrors.ChecksumMismatch` if the checksum of the file differs from `expected`.
+ */
+export async function verifyChecksum(filePath: string, expected: string | undefined): Promise<void> {
+    if (!expected) {
+        return;
+    }
+    const actual = await sha256File(filePath);
+    if (actual !== expected) {
+        await rm(filePath, { force: true });
+        throw new TypedError(`Checksum mismatch for ${filePath}: expected sha256 ${expected}, got ${actual}`,
+            BinaryErrors.ChecksumMismatch);
+    }
+}
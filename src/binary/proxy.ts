@@ -0,0 +1,129 @@
+import * as http from "http";
+import * as https from "https";
+import { connect, Socket } from "net";
+import * as tls from "tls";
+
+type ConnectionCallback = (error: Error | null, socket?: Socket) => void;
+
+/*
+  * Agent that sends plain-http requests to an HTTP proxy with the absolute URI as the request target,
+  * the way forward proxies expect them.
+  */
+class HttpProxyAgent extends http.Agent {
+    constructor(private readonly proxy: URL) {
+        super({ keepAlive: false });
+    }
+
+    // called by `http.request()` before the request line is written
+    addRequest(request: http.ClientRequest, options: http.ClientRequestArgs): void {
+        const port = options.port && Number(options.port) !== 80 ? `:${options.port}` : "";
+        request.path = `http://${options.host}${port}${request.path}`;
+        const authorization = proxyAuthorization(this.proxy);
+        if (authorization) {
+            request.setHeader("proxy-authorization", authorization);
+        }
+        (http.Agent.prototype as unknown as AgentInternals).addRequest.call(this, request, options);
+    }
+
+    createConnection(): Socket {
+        const port = Number(this.proxy.port) || (this.proxy.protocol === "https:" ? 443 : 80);
+        return this.proxy.protocol === "https:"
+            ? tls.connect({ host: this.proxy.hostname, port, servername: this.proxy.hostname })
+            : connect(port, this.proxy.hostname);
+    }
+}
+
+// `http.Agent` methods that are called by node but missing from its typings
+interface AgentInternals {
+    addRequest(request: http.ClientRequest, options: http.ClientRequestArgs): void;
+}
+
+/*
+  * Agent that tunnels https connections through an HTTP proxy with CONNECT,
+  * so the proxy never sees the requests themselves.
+  */
+class HttpsTunnelAgent extends https.Agent {
+    constructor(private readonly proxy: URL) {
+        super({ keepAlive: false });
+    }
+
+    createConnection(options: tls.ConnectionOptions & http.ClientRequestArgs, callback: ConnectionCallback): void {
+        openTunnel(this.proxy, options, (error, socket) => {
+            if (error || !socket) {
+                callback(error ?? new Error("Proxy tunnel closed"));
+                return;
+            }
+            const servername = options.servername ?? options.host ?? undefined;
+            callback(null, tls.connect({ ...options, socket, servername }));
+        });
+    }
+}
+
+function openTunnel(proxy: URL, options: http.ClientRequestArgs, callback: ConnectionCallback): void {
+    const target = `${options.host}:${options.port}`;
+    const headers: http.OutgoingHttpHeaders = { host: target };
+    const authorization = proxyAuthorization(proxy);
+    if (authorization) {
+        headers["proxy-authorization"] = authorization;
+    }
+    const request = (proxy.protocol === "https:" ? https : http).request({
+        host: proxy.hostname,
+        port: proxy.port || (proxy.protocol === "https:" ? 443 : 80),
+        method: "CONNECT",
+        path: target,
+        headers,
+    });
+    request.once("connect", (response, socket) => {
+        if (response.statusCode !== 200) {
+            socket.destroy();
+            callback(new Error(`Proxy ${proxy.host} refused to connect to ${target}: ${response.statusCode}`));
+            return;
+        }
+        callback(null, socket);
+    });
+    request.once("error", error => callback(error));
+    request.end();
+}
+
+// Basic credentials from the user info of the proxy URL, if any
+function proxyAuthorization(proxy: URL): string | undefined {
+    if (!proxy.username) {
+        return undefined;
+    }
+    const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+    return `Basic ${Buffer.from(credentials).toString("base64")}`;
+}
+
+// Whether `url` matches an entry of NO_PROXY: `*`, a host, a `.domain` suffix or a `host:port`
+function bypassesProxy(url: URL): boolean {
+    const noProxy = process.env["NO_PROXY"] ?? process.env["no_proxy"];
+    if (!noProxy) {
+        return false;
+    }
+    const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+    const port = url.port || (url.protocol === "https:" ? "443" : "80");
+    return noProxy.split(/[\s,]+/).filter(Boolean).some(entry => {
+        if (entry === "*") return true;
+        const match = /^(.+?)(?::(\d+))?$/.exec(entry.toLowerCase())!;
+        const host = match[1]!.replace(/^\*?\./, "").replace(/^\[|\]$/g, "");
+        if (match[2] && match[2] !== port) return false;
+        return hostname === host || hostname.endsWith(`.${host}`);
+    });
+}
+
+/**
+ * Returns agents that route a request to `url` through HTTPS_PROXY (https, tunneled with CONNECT) or HTTP_PROXY
+ * (http, sent to the proxy as is), or undefined if no proxy is configured or the host is excluded by NO_PROXY.
+ */
+export function proxyAgent(url: string): { http?: http.Agent; https?: https.Agent } | undefined {
+    const target = new URL(url);
+    const isHttps = target.protocol === "https:";
+    const proxy = isHttps
+        ? process.env["HTTPS_PROXY"] ?? process.env["https_proxy"]
+        : process.env["HTTP_PROXY"] ?? process.env["http_proxy"];
+    if (!proxy || bypassesProxy(target)) {
+        return undefined;
+    }
+    const proxyUrl = new URL(proxy.includes("://") ? proxy : `http://${proxy}`);
+    return isHttps ? { https: new HttpsTunnelAgent(proxyUrl) } : { http: new HttpProxyAgent(proxyUrl) };
+}
@@ -0,0 +1,194 @@
+import { copyFile, rm, stat } from "fs/promises";
+import { createWriteStream } from "fs";
+import { fileURLToPath } from "url";
+import { promisify } from "util";
+import * as stream from "stream";
+import got, { HTTPError, Response } from "got";
+import { AWSUrl, getPlatform } from "./binaryUtils";
+import { proxyAgent } from "./proxy";
+
+const pipeline = promisify(stream.pipeline);
+
+// Layout appended to a mirror base URL without placeholders, the same as the default bucket
+const MIRROR_LAYOUT = "{platform}-{arch}/{version}/near-sandbox.tar.gz";
+
+/**
+ * Lists the locations to fetch the `near-sandbox` tarball of `version` from, in the order they are tried:
+ *   1. `SANDBOX_ARTIFACT_URL`
+ *   2. `NEAR_SANDBOX_MIRROR_URL`, a base URL the default layout `{platform}-{arch}/{version}/near-sandbox.tar.gz` is appended to
+ *   3. `NEAR_SANDBOX_FALLBACK_URLS`, a comma separated list
+ *
+ * Every location can be an http(s) URL, a `file://` URL or a filesystem path, and may contain the
+ * `{version}`, `{platform}` and `{arch}` placeholders. Falls back to the default bucket if none is set.
+ */
+export function artifactSources(version: string): string[] {
+    const sources: string[] = [];
+    const artifactUrl = process.env["SANDBOX_ARTIFACT_URL"];
+    if (artifactUrl) {
+        sources.push(artifactUrl);
+    }
+    const mirror = process.env["NEAR_SANDBOX_MIRROR_URL"];
+    if (mirror) {
+        sources.push(/\{(version|platform|arch)\}/.test(mirror) ? mirror : `${mirror.replace(/\/+$/, "")}/${MIRROR_LAYOUT}`);
+    }
+    const fallbacks = process.env["NEAR_SANDBOX_FALLBACK_URLS"];
+    if (fallbacks) {
+        sources.push(...fallbacks.split(",").map(source => source.trim()).filter(source => source.length > 0));
+    }
+    if (sources.length === 0) {
+        return [AWSUrl(version)];
+    }
+    return sources.map(source => expandTemplate(source, version));
+}
+
+export function expandTemplate(source: string, version: string): string {
+    const [platform, arch] = getPlatform();
+    return source
+        .replace(/\{version\}/g, version)
+        .replace(/\{platform\}/g, platform!)
+        .replace(/\{arch\}/g, arch!);
+}
+
+/**
+ * Progress of a tarball download.
+ * @property source - The location being downloaded.
+ * @property transferred - Bytes on disk so far, including a resumed partial download.
+ * @property total - Size of the tarball in bytes, if the server reports it.
+ */
+export interface DownloadProgress {
+    source: string;
+    transferred: number;
+    total?: number;
+}
+
+/**
+ * Options for downloading the sandbox binary.
+ * @property retries - How many times a failed http(s) download is retried. Defaults to `NEAR_SANDBOX_DOWNLOAD_RETRIES` or 3.
+ * @property retryDelayMs - Delay before the first retry, doubled for every next one. Defaults to `NEAR_SANDBOX_DOWNLOAD_RETRY_DELAY_MS` or 1000.
+ * @property onProgress - Called as the tarball is being downloaded.
+ * @property signal - Aborts the download, including the wait before a retry. An aborted download is not retried.
+ * @property onUnverified - Called with a warning when an http(s) tarball is installed without a known SHA-256 checksum.
+ */
+export interface DownloadOptions {
+    retries?: number;
+    retryDelayMs?: number;
+    onProgress?: (progress: DownloadProgress) => void;
+    signal?: AbortSignal;
+    onUnverified?: (warning: string) => void;
+}
+
+// Copies the tarball at `source` to `destination`, downloading it if `source` is an http(s) URL
+export async function fetchArtifact(source: string, destination: string, options: DownloadOptions = {}): Promise<void> {
+    if (/^https?:\/\//i.test(source)) {
+        await downloadWithRetries(source, destination, options);
+        return;
+    }
+    const path = source.startsWith("file://") ? fileURLToPath(source) : source;
+    await copyFile(path, destination);
+}
+
+async function downloadWithRetries(url: string, destination: string, options: DownloadOptions): Promise<void> {
+    const retries = options.retries ?? envNumber("NEAR_SANDBOX_DOWNLOAD_RETRIES", 3);
+    const retryDelayMs = options.retryDelayMs ?? envNumber("NEAR_SANDBOX_DOWNLOAD_RETRY_DELAY_MS", 1000);
+    for (let attempt = 0; ; attempt++) {
+        try {
+            await download(url, destination, options.onProgress, options.signal);
+            return;
+        } catch (error) {
+            if (attempt >= retries || options.signal?.aborted || !isRetryable(error)) {
+                throw error;
+            }
+            await delay(retryDelayMs * 2 ** attempt, options.signal);
+        }
+    }
+}
+
+// Downloads `url` into `destination`, continuing a partial file with a range request if the server supports it
+async function download(
+    url: string,
+    destination: string,
+    onProgress?: (progress: DownloadProgress) => void,
+    signal?: AbortSignal
+): Promise<void> {
+    throwIfAborted(signal);
+    const offset = await stat(destination).then(stats => stats.size, () => 0);
+    const request = got.stream(url, {
+        headers: offset > 0 ? { range: `bytes=${offset}-` } : {},
+        agent: proxyAgent(url),
+        retry: 0,
+    });
+    const onAbort = () => request.destroy(abortError(signal!));
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+        let response: Response;
+        try {
+            response = await new Promise<Response>((resolve, reject) => {
+                request.once("response", resolve);
+                request.once("error", reject);
+            });
+        } catch (error) {
+            // the partial file is already complete or no longer matches the remote file, start over
+            if (error instanceof HTTPError && error.response.statusCode === 416) {
+                await rm(destination, { force: true });
+            }
+            throw error;
+        }
+        // a server without range support sends the whole file again
+        const resumed = response.statusCode === 206;
+        const start = resumed ? offset : 0;
+        const length = Number(response.headers["content-length"]);
+        const total = Number.isFinite(length) ? start + length : undefined;
+
+        if (onProgress) {
+            request.on("downloadProgress", ({ transferred }: { transferred: number }) => {
+                onProgress({ source: url, transferred: start + transferred, total });
+            });
+        }
+        await pipeline(request, createWriteStream(destination, { flags: resumed ? "a" : "w" }));
+    } finally {
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
+
+// network errors that are likely to go away on their own
+const TRANSIENT_ERROR_CODES = new Set(["ETIMEDOUT", "ECONNRESET", "EAI_AGAIN"]);
+
+function isRetryable(error: unknown): boolean {
+    if (error instanceof HTTPError) {
+        const status = error.response.statusCode;
+        // a 416 restarts a resumed download from scratch
+        return status >= 500 || status === 408 || status === 416 || status === 429;
+    }
+    const code = (error as { code?: unknown } | undefined)?.code;
+    return typeof code === "string" && TRANSIENT_ERROR_CODES.has(code);
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw abortError(signal);
+    }
+}
+
+function abortError(signal: AbortSignal): Error {
+    return signal.reason instanceof Error ? signal.reason : new Error("The download was aborted");
+}
+
+// resolves after `ms`, rejects once `signal` is aborted
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError(signal!));
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+function envNumber(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
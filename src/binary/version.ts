@@ -0,0 +1,116 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import * as semver from "semver";
+import { DEFAULT_NEAR_SANDBOX_VERSION } from "../constants";
+import { BinaryErrors, TypedError } from "../errors";
+import { listInstalledBinaries } from "./binary";
+import { compareVersions } from "./binaryUtils";
+
+export const LATEST_CACHED = "latest-cached";
+const PIN_FILE = ".near-sandbox.json";
+
+export function isExactVersion(version: string): boolean {
+    return semver.valid(version) !== null;
+}
+
+/**
+ * Picks the sandbox version to run, in order of precedence:
+ *   1. `requested`, e.g. the `version` passed to `Sandbox.start()`
+ *   2. the `NEAR_SANDBOX_VERSION` environment variable
+ *   3. the `version` of the nearest `.near-sandbox.json`, or the `nearSandbox.version` of the nearest `package.json`,
+ *      looking up from `cwd`
+ *   4. `DEFAULT_NEAR_SANDBOX_VERSION`
+ *
+ * Exact versions are used as is. `latest-cached` and semver ranges like `^2.6` or `>=2.8 <2.10` resolve to the
+ * newest matching version among the downloaded binaries and the default version.
+ *
+ * @throws {TypedError} `BinaryErrors.InvalidVersion` if the version is neither a version nor a range,
+ * `BinaryErrors.BinaryNotFound` if no downloaded version matches.
+ */
+export async function resolveVersion(requested?: string, cwd: string = process.cwd()): Promise<string> {
+    const specifier = requested
+        || process.env["NEAR_SANDBOX_VERSION"]
+        || await pinnedVersion(cwd)
+        || DEFAULT_NEAR_SANDBOX_VERSION;
+    return resolveSpecifier(specifier.trim());
+}
+
+async function resolveSpecifier(specifier: string): Promise<string> {
+    if (isExactVersion(specifier)) {
+        return semver.valid(specifier)!;
+    }
+    const cached = (await listInstalledBinaries()).map(binary => binary.version);
+    if (specifier === LATEST_CACHED) {
+        const latest = cached.find(version => isExactVersion(version) && !semver.prerelease(version));
+        if (!latest) {
+            throw new TypedError(`No downloaded sandbox binary to use as ${LATEST_CACHED}`, BinaryErrors.BinaryNotFound);
+        }
+        return latest;
+    }
+
+    const candidates = [...new Set([...cached, DEFAULT_NEAR_SANDBOX_VERSION])]
+        .filter(version => satisfies(version, specifier))
+        .sort(compareVersions);
+    const newest = candidates[candidates.length - 1];
+    if (!newest) {
+        throw new TypedError(
+            `No downloaded sandbox binary matches ${specifier}, run \`near-sandbox binary install <version>\` first`,
+            BinaryErrors.BinaryNotFound
+        );
+    }
+    return newest;
+}
+
+// Reads the version pinned in the nearest directory with a `.near-sandbox.json` or a `package.json` with `nearSandbox.version`
+async function pinnedVersion(cwd: string): Promise<string | undefined> {
+    let dir = resolve(cwd);
+    while (true) {
+        const pinFile = join(dir, PIN_FILE);
+        if (existsSync(pinFile)) {
+            const version = (await readJson(pinFile))?.["version"];
+            if (typeof version !== "string") {
+                throw new TypedError(`${pinFile} must contain a "version" string`, BinaryErrors.InvalidVersion);
+            }
+            return version;
+        }
+        const packageJson = join(dir, "package.json");
+        if (existsSync(packageJson)) {
+            const version = (await readJson(packageJson))?.["nearSandbox"]?.["version"];
+            if (version !== undefined) {
+                if (typeof version !== "string") {
+                    throw new TypedError(`nearSandbox.version in ${packageJson} must be a string`, BinaryErrors.InvalidVersion);
+                }
+                return version;
+            }
+        }
+        const parent = dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+async function readJson(path: string): Promise<Record<string, any> | undefined> {
+    try {
+        return JSON.parse(await readFile(path, "utf-8"));
+    } catch (error) {
+        throw new TypedError(`Failed to read ${path}`,
+            BinaryErrors.InvalidVersion,
+            error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Whether `version` matches a semver `range`, e.g. `>=2.6.0 <3`, `^2.6`, `~2.6.1`, `2.x` or `2.6 - 2.8 || 3.x`.
+ * Pre-releases only match ranges with a pre-release of the same major, minor and patch version.
+ *
+ * @throws {TypedError} `BinaryErrors.InvalidVersion` if the range can't be parsed.
+ */
+export function satisfies(version: string, range: string): boolean {
+    if (semver.validRange(range) === null) {
+        throw new TypedError(`Invalid sandbox version range: ${range}`, BinaryErrors.InvalidVersion);
+    }
+    return semver.satisfies(version, range);
+}
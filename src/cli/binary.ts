@@ -0,0 +1,184 @@
+import {
+    binPath,
+    checkForVersion,
+    downloadBin,
+    installable,
+    listInstalledBinaries,
+    pingBin,
+    removeInstalledBinary,
+} from "../binary/binary";
+import { DownloadProgress } from "../binary/sources";
+import { isExactVersion, resolveVersion } from "../binary/version";
+import { DEFAULT_NEAR_SANDBOX_VERSION } from "../constants";
+import { BinaryErrors, TypedError } from "../errors";
+
+const PROGRESS_BAR_WIDTH = 30;
+
+const USAGE = `Usage: near-sandbox binary <command>
+
+Commands:
+  list                 List the downloaded versions, * marks the one used by default
+  install <version>    Download an exact version, e.g. 2.10.7, unless it is already downloaded
+  path <version>       Print the path of a downloaded version, or of the newest one matching a range
+  prune [--keep N]     Delete all but the N newest versions (default 1) and the default version
+  verify [version]     Check that the downloaded versions run, exits with 1 if any doesn't`;
+
+/**
+ * Runs a `near-sandbox binary ...` subcommand that manages the cached binaries
+ * instead of passing the arguments to the binary itself.
+ *
+ * @param args Arguments after `binary`.
+ * @param log Receives every line of output.
+ * @returns The exit code of the command.
+ */
+export async function runBinaryCommand(args: string[], log: (line: string) => void = console.log): Promise<number> {
+    const [command, ...rest] = args;
+    switch (command) {
+        case "list":
+            return list(log);
+        case "install":
+            if (!rest[0]) {
+                return usage(log);
+            }
+            if (!isExactVersion(rest[0].trim())) {
+                log(`Expected an exact version to install, e.g. ${DEFAULT_NEAR_SANDBOX_VERSION}, got ${rest[0]}`);
+                return usage(log);
+            }
+            return withVersion(rest[0], version => install(version, log), log);
+        case "path":
+            return rest[0] ? withVersion(rest[0], version => path(version, log), log) : usage(log);
+        case "prune":
+            return prune(rest, log);
+        case "verify":
+            return verify(rest[0], log);
+        default:
+            return usage(log, command === undefined || command === "--help" || command === "-h" ? 0 : 1);
+    }
+}
+
+function usage(log: (line: string) => void, code = 1): number {
+    log(USAGE);
+    return code;
+}
+
+// Runs `command` with the resolved version, or prints why `specifier` can't be resolved
+async function withVersion(specifier: string, command: (version: string) => Promise<number>, log: (line: string) => void): Promise<number> {
+    let version: string;
+    try {
+        version = await resolveVersion(specifier);
+    } catch (error) {
+        if (error instanceof TypedError && (error.type === BinaryErrors.InvalidVersion || error.type === BinaryErrors.BinaryNotFound)) {
+            log(error.message);
+            return usage(log);
+        }
+        throw error;
+    }
+    return command(version);
+}
+
+async function list(log: (line: string) => void): Promise<number> {
+    const binaries = await listInstalledBinaries();
+    if (binaries.length === 0) {
+        log("No binaries downloaded");
+    }
+    const defaultVersion = await resolveDefaultVersion();
+    for (const { version, path } of binaries) {
+        const marker = version === defaultVersion ? "*" : " ";
+        log(`${marker} ${version}\t${path}`);
+    }
+    return 0;
+}
+
+// The version `Sandbox.start()` uses without an explicit one, see `resolveVersion`
+async function resolveDefaultVersion(): Promise<string> {
+    return resolveVersion().catch(() => DEFAULT_NEAR_SANDBOX_VERSION);
+}
+
+async function install(version: string, log: (line: string) => void): Promise<number> {
+    const target = await binPath(version);
+    const release = await installable(target);
+    let installed = target;
+    if (release) {
+        try {
+            installed = await downloadBin(version, { onProgress: progressBar(), onUnverified: console.warn });
+        } finally {
+            await release();
+        }
+    }
+    await pingBin(installed);
+    log(installed);
+    return 0;
+}
+
+// Renders download progress on a single stderr line, if stderr is a terminal
+export function progressBar(): ((progress: DownloadProgress) => void) | undefined {
+    if (!process.stderr.isTTY) {
+        return undefined;
+    }
+    const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    return ({ transferred, total }) => {
+        if (!total) {
+            process.stderr.write(`\rDownloading ${mb(transferred)} MB`);
+            return;
+        }
+        const filled = Math.round(PROGRESS_BAR_WIDTH * transferred / total);
+        const percent = Math.floor(100 * transferred / total);
+        process.stderr.write(`\r[${"#".repeat(filled)}${"-".repeat(PROGRESS_BAR_WIDTH - filled)}] ${percent}% ${mb(transferred)}/${mb(total)} MB`);
+        if (transferred >= total) {
+            process.stderr.write("\n");
+        }
+    };
+}
+
+async function path(version: string, log: (line: string) => void): Promise<number> {
+    const installed = await checkForVersion(version);
+    if (!installed) {
+        log(`Version ${version} is not downloaded, run \`near-sandbox binary install ${version}\``);
+        return 1;
+    }
+    log(installed);
+    return 0;
+}
+
+async function prune(args: string[], log: (line: string) => void): Promise<number> {
+    let keep = 1;
+    const keepIndex = args.indexOf("--keep");
+    if (keepIndex !== -1) {
+        keep = Number(args[keepIndex + 1]);
+        if (!Number.isInteger(keep) || keep < 0) {
+            log(`Expected a non-negative integer after --keep, got ${args[keepIndex + 1]}`);
+            return 1;
+        }
+    }
+    // listed newest first
+    const binaries = await listInstalledBinaries();
+    const defaultVersion = await resolveDefaultVersion();
+    for (const { version } of binaries.slice(keep)) {
+        if (version === defaultVersion) continue;
+        if (await removeInstalledBinary(version)) {
+            log(`Removed ${version}`);
+        } else {
+            log(`Skipped ${version}, it is being installed`);
+        }
+    }
+    return 0;
+}
+
+async function verify(version: string | undefined, log: (line: string) => void): Promise<number> {
+    const binaries = (await listInstalledBinaries()).filter(binary => !version || binary.version === version);
+    if (version && binaries.length === 0) {
+        log(`Version ${version} is not downloaded`);
+        return 1;
+    }
+    let failed = 0;
+    for (const binary of binaries) {
+        try {
+            await pingBin(binary.path);
+            log(`ok\t${binary.version}`);
+        } catch (error) {
+            failed += 1;
+            log(`failed\t${binary.version}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    return failed > 0 ? 1 : 0;
+}
@@ -0,0 +1,181 @@
+import { readFile } from "fs/promises";
+import { dirname, extname, isAbsolute, resolve } from "path";
+import { pathToFileURL } from "url";
+import { NEAR } from "@near-js/tokens";
+import { SandboxErrors, TypedError } from "../errors";
+import { GenesisAccount, GenesisContract, SandboxConfig } from "../sandbox/config";
+import { ImportConfig } from "../sandbox/importState";
+import { generateKeyFile } from "../sandbox/keys";
+import { StartParams } from "../sandbox/Sandbox";
+
+/*
+  * An account of a config file. Balances are in yoctoNEAR, or in NEAR with a " NEAR" suffix, e.g. "100 NEAR".
+  * A key pair is generated if both keys are omitted. Defaults to the balance of `GenesisAccount.createDefault()`.
+  */
+export interface ConfigFileAccount {
+    accountId: string;
+    publicKey?: string;
+    privateKey?: string;
+    balance?: string | number | bigint;
+}
+
+/*
+  * A contract of a config file. `code` is a path to a wasm file, relative to the config file.
+  */
+export interface ConfigFileContract extends Omit<GenesisContract, "balance"> {
+    balance?: string | number | bigint;
+}
+
+/**
+ * Contents of a `near-sandbox start --config` file: a JSON file, or a JS or TS module exporting
+ * the object, or a function returning it, as default export.
+ * Relative paths are resolved against the directory of the config file.
+ * @property version - Binary version or range, see `StartParams.version`.
+ * @property homeDir - Persistent home directory, see `StartParams.homeDir`.
+ * @property timeoutMs - How long to wait for the node to become ready.
+ * @property readyWhen - When the node is considered ready, `"status"` or `"firstBlock"`.
+ * @property rpcPort, netPort, host, advertisedHost, portRange, additionalConfig, additionalGenesis, importFrom - Same as in `SandboxConfig`.
+ * @property additionalAccounts - Genesis accounts, see `ConfigFileAccount`.
+ * @property additionalContracts - Contracts deployed at genesis, see `ConfigFileContract`.
+ */
+export interface SandboxConfigFile {
+    version?: string;
+    homeDir?: string;
+    timeoutMs?: number;
+    readyWhen?: "status" | "firstBlock";
+    rpcPort?: number;
+    netPort?: number;
+    host?: string;
+    advertisedHost?: string;
+    portRange?: [number, number];
+    additionalConfig?: Record<string, any>;
+    additionalGenesis?: Record<string, any>;
+    additionalAccounts?: ConfigFileAccount[];
+    additionalContracts?: ConfigFileContract[];
+    importFrom?: ImportConfig;
+}
+
+const MODULE_EXTENSIONS = [".js", ".cjs", ".mjs"];
+const TYPESCRIPT_EXTENSIONS = [".ts", ".cts", ".mts"];
+
+// `import()` compiled to CommonJS becomes `require()`, which can't load ES modules
+const nativeImport = new Function("specifier", "return import(specifier)") as (specifier: string) => Promise<any>;
+
+/**
+ * Reads a config file and turns it into the parameters of `Sandbox.start()`.
+ * TypeScript config files are loaded with `tsx`, which has to be installed.
+ *
+ * @throws {TypedError} `SandboxErrors.InvalidConfig` if the file can't be loaded or has invalid fields.
+ */
+export async function loadConfigFile(path: string): Promise<StartParams> {
+    const file = resolve(path);
+    const contents = await readConfigFile(file);
+    if (typeof contents !== "object" || contents === null || Array.isArray(contents)) {
+        throw new TypedError(`${file} must contain an object`, SandboxErrors.InvalidConfig);
+    }
+    return toStartParams(contents as SandboxConfigFile, dirname(file));
+}
+
+async function readConfigFile(file: string): Promise<unknown> {
+    const extension = extname(file).toLowerCase();
+    try {
+        if (MODULE_EXTENSIONS.includes(extension) || TYPESCRIPT_EXTENSIONS.includes(extension)) {
+            const module = TYPESCRIPT_EXTENSIONS.includes(extension)
+                ? await importTypeScript(file)
+                : await nativeImport(pathToFileURL(file).href);
+            // a CommonJS module imported as ES module has its `module.exports` as default
+            const exported = module.default?.default ?? module.default ?? module;
+            return typeof exported === "function" ? await exported() : exported;
+        }
+        return JSON.parse(await readFile(file, "utf-8"));
+    } catch (error) {
+        if (error instanceof TypedError) {
+            throw error;
+        }
+        throw new TypedError(`Failed to load config file ${file}`,
+            SandboxErrors.InvalidConfig,
+            error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+async function importTypeScript(file: string): Promise<any> {
+    let tsx: { tsImport: (specifier: string, parentURL: string) => Promise<any> };
+    try {
+        tsx = await nativeImport("tsx/esm/api");
+    } catch {
+        throw new TypedError(`Loading ${file} requires tsx, install it or use a JSON or JS config file`, SandboxErrors.InvalidConfig);
+    }
+    return tsx.tsImport(pathToFileURL(file).href, pathToFileURL(__filename).href);
+}
+
+function toStartParams(file: SandboxConfigFile, baseDir: string): StartParams {
+    const config: SandboxConfig = {
+        rpcPort: file.rpcPort,
+        netPort: file.netPort,
+        host: file.host,
+        advertisedHost: file.advertisedHost,
+        portRange: file.portRange,
+        additionalConfig: file.additionalConfig,
+        additionalGenesis: file.additionalGenesis,
+        additionalAccounts: file.additionalAccounts?.map((account, i) => toGenesisAccount(account, `additionalAccounts[${i}]`)),
+        additionalContracts: file.additionalContracts?.map((contract, i) => ({
+            ...contract,
+            code: typeof contract.code === "string" ? resolvePath(baseDir, contract.code) : contract.code,
+            balance: contract.balance === undefined ? undefined : parseBalance(contract.balance, `additionalContracts[${i}].balance`),
+        })),
+        importFrom: file.importFrom,
+    };
+    return {
+        config,
+        version: file.version,
+        homeDir: file.homeDir === undefined ? undefined : resolvePath(baseDir, file.homeDir),
+        timeoutMs: file.timeoutMs,
+        readyWhen: parseReadyWhen(file.readyWhen),
+    };
+}
+
+function parseReadyWhen(readyWhen: unknown): SandboxConfigFile["readyWhen"] {
+    if (readyWhen === undefined || readyWhen === "status" || readyWhen === "firstBlock") {
+        return readyWhen;
+    }
+    throw new TypedError(`readyWhen must be "status" or "firstBlock", got ${JSON.stringify(readyWhen) ?? String(readyWhen)}`,
+        SandboxErrors.InvalidConfig);
+}
+
+function toGenesisAccount(account: ConfigFileAccount, field: string): GenesisAccount {
+    if (account instanceof GenesisAccount) {
+        return account;
+    }
+    if (typeof account?.accountId !== "string") {
+        throw new TypedError(`${field}.accountId must be a string`, SandboxErrors.InvalidConfig);
+    }
+    const balance = account.balance === undefined
+        ? GenesisAccount.createDefault().balance
+        : parseBalance(account.balance, `${field}.balance`);
+    if (account.publicKey === undefined && account.privateKey === undefined) {
+        const key = generateKeyFile(account.accountId);
+        return new GenesisAccount(account.accountId, key.public_key, key.secret_key, balance);
+    }
+    if (typeof account.publicKey !== "string" || typeof account.privateKey !== "string") {
+        throw new TypedError(`${field} must set both publicKey and privateKey, or neither`, SandboxErrors.InvalidConfig);
+    }
+    return new GenesisAccount(account.accountId, account.publicKey, account.privateKey, balance);
+}
+
+function parseBalance(balance: string | number | bigint, field: string): bigint {
+    try {
+        if (typeof balance === "string") {
+            const near = /^\s*(\d+(?:\.\d+)?)\s*NEAR\s*$/i.exec(balance);
+            return near ? NEAR.toUnits(near[1]!) : BigInt(balance.trim());
+        }
+        return BigInt(balance);
+    } catch (error) {
+        throw new TypedError(`${field} must be an amount in yoctoNEAR or like "100 NEAR", got ${balance}`,
+            SandboxErrors.InvalidConfig,
+            error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+function resolvePath(baseDir: string, path: string): string {
+    return isAbsolute(path) ? path : resolve(baseDir, path);
+}
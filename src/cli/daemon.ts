@@ -0,0 +1,73 @@
+import { existsSync } from "fs";
+import { rm } from "fs/promises";
+import { terminate } from "../sandbox/reap";
+import { SandboxRpcClient } from "../sandbox/rpc";
+import { connectableHost, isPidAlive, readSandboxHandle, releasePortLock, rpcSocket } from "../sandbox/sandboxUtils";
+import { DEFAULT_HANDLE_FILE } from "./start";
+
+/**
+ * Runs `near-sandbox status [--handle <file>]`: prints the sandbox of a handle file and whether it is running.
+ *
+ * @returns 0 if the sandbox is running and responds, 1 otherwise.
+ */
+export async function runStatusCommand(args: string[], log: (line: string) => void = console.log): Promise<number> {
+    const handleFile = handleFileArg(args);
+    if (!existsSync(handleFile)) {
+        log(`No sandbox is running, ${handleFile} does not exist`);
+        return 1;
+    }
+    const handle = await readSandboxHandle(handleFile);
+    let state = "not running";
+    let responding = false;
+    if (isPidAlive(handle.pid)) {
+        try {
+            // `rpcUrl` may use a host advertised to containers, the bind address is reachable from here
+            const rpcUrl = handle.host ? `http://${rpcSocket(handle.rpcPort, connectableHost(handle.host))}` : handle.rpcUrl;
+            const status = await new SandboxRpcClient(rpcUrl).status();
+            state = `running, block #${status.sync_info.latest_block_height}`;
+            responding = true;
+        } catch {
+            state = "running, RPC not responding";
+        }
+    }
+    log(`Status:         ${state}`);
+    log(`PID:            ${handle.pid}`);
+    log(`RPC URL:        ${handle.rpcUrl}`);
+    log(`Home directory: ${handle.homeDir}`);
+    log(`Version:        ${handle.version}`);
+    if (handle.logFile) {
+        log(`Log file:       ${handle.logFile}`);
+    }
+    return responding ? 0 : 1;
+}
+
+/**
+ * Runs `near-sandbox down [--handle <file>]`: stops the node of a handle file, or cleans up what is left of it
+ * if it has already exited. Doesn't depend on the node answering RPC, so a hung node can be taken down too.
+ */
+export async function runDownCommand(args: string[], log: (line: string) => void = console.log): Promise<number> {
+    const handleFile = handleFileArg(args);
+    if (!existsSync(handleFile)) {
+        log(`No sandbox is running, ${handleFile} does not exist`);
+        return 1;
+    }
+    const handle = await readSandboxHandle(handleFile);
+    const running = isPidAlive(handle.pid);
+    if (running) {
+        await terminate(handle.pid);
+    }
+    await Promise.allSettled([releasePortLock(handle.rpcPortLockPath), releasePortLock(handle.netPortLockPath)]);
+    if (handle.ownsHomeDir) {
+        await rm(handle.homeDir, { recursive: true, force: true });
+    }
+    await rm(handleFile, { force: true });
+    log(running
+        ? `Stopped sandbox process ${handle.pid}`
+        : `Sandbox process ${handle.pid} had already exited, removed its leftovers`);
+    return 0;
+}
+
+function handleFileArg(args: string[]): string {
+    const index = args.indexOf("--handle");
+    return index !== -1 && args[index + 1] ? args[index + 1]! : DEFAULT_HANDLE_FILE;
+}
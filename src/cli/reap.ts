@@ -0,0 +1,33 @@
+import { Sandbox } from "../sandbox/Sandbox";
+
+const USAGE = `Usage: near-sandbox reap [--dry-run]
+
+Stops sandbox nodes left running by processes that exited without tearing them down, and removes
+temporary home directories and port lock files of exited processes. Detached sandboxes keep running.
+
+Options:
+  --dry-run    Only print what would be stopped and removed`;
+
+/**
+ * Runs `near-sandbox reap`: cleans up what sandboxes of exited processes left behind, see `Sandbox.reap()`.
+ *
+ * @param args Arguments after `reap`.
+ * @param log Receives every line of output.
+ * @returns The exit code of the command.
+ */
+export async function runReapCommand(args: string[], log: (line: string) => void = console.log): Promise<number> {
+    const dryRun = args.includes("--dry-run");
+    if (args.some(arg => arg !== "--dry-run")) {
+        log(USAGE);
+        return args.includes("--help") || args.includes("-h") ? 0 : 1;
+    }
+    const { processes, homeDirs, lockFiles } = await Sandbox.reap({ dryRun });
+    const verb = dryRun ? "Would remove" : "Removed";
+    processes.forEach(pid => log(`${dryRun ? "Would stop" : "Stopped"} orphaned sandbox process ${pid}`));
+    homeDirs.forEach(dir => log(`${verb} home directory ${dir}`));
+    lockFiles.forEach(file => log(`${verb} port lock ${file}`));
+    if (processes.length + homeDirs.length + lockFiles.length === 0) {
+        log("Nothing to clean up");
+    }
+    return 0;
+}
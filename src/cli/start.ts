@@ -0,0 +1,119 @@
+import { join } from "path";
+import { SandboxCrashError } from "../errors";
+import { Sandbox, StartParams } from "../sandbox/Sandbox";
+import { progressBar } from "./binary";
+import { loadConfigFile } from "./configFile";
+
+/**
+ * Handle file used by `near-sandbox up`, `status` and `down` unless `--handle` is given.
+ */
+export const DEFAULT_HANDLE_FILE = ".near-sandbox-handle.json";
+
+const USAGE = `Usage: near-sandbox start|up [--config <file>] [-d] [--handle <file>]
+
+Starts a sandbox and keeps it running until Ctrl-C, then tears it down.
+\`up\` always writes a handle file for \`near-sandbox status\` and \`near-sandbox down\`.
+
+Options:
+  --config <file>    A JSON, JS or TS config file with the version, ports, accounts and config overrides
+  -d, --detach       Start the sandbox in the background and exit, stop it with \`near-sandbox down\`
+  --handle <file>    Where to write the handle other processes connect with (default ${DEFAULT_HANDLE_FILE} with -d)`;
+
+const STOP_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+/**
+ * Runs `near-sandbox up`, the same as `near-sandbox start` but always with a handle file.
+ */
+export async function runUpCommand(args: string[], log: (line: string) => void = console.log): Promise<number> {
+    return runStartCommand(args.includes("--handle") ? args : [...args, "--handle", DEFAULT_HANDLE_FILE], log);
+}
+
+/**
+ * Runs `near-sandbox start`: starts a sandbox from an optional config file, prints where to reach it
+ * and waits for Ctrl-C or SIGTERM to tear it down. With `-d` it leaves the sandbox running in the background instead.
+ *
+ * @param args Arguments after `start`.
+ * @param log Receives every line of output.
+ * @returns The exit code of the command, once the sandbox is stopped or detached.
+ */
+export async function runStartCommand(args: string[], log: (line: string) => void = console.log): Promise<number> {
+    let configPath: string | undefined;
+    let handleFile: string | undefined;
+    let detached = false;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === "--config" && args[i + 1]) {
+            configPath = args[++i];
+        } else if (args[i] === "--handle" && args[i + 1]) {
+            handleFile = args[++i];
+        } else if (args[i] === "-d" || args[i] === "--detach") {
+            detached = true;
+        } else {
+            log(USAGE);
+            return args[i] === "--help" || args[i] === "-h" ? 0 : 1;
+        }
+    }
+    if (detached) {
+        handleFile ??= DEFAULT_HANDLE_FILE;
+    }
+    const params: StartParams = {
+        ...(configPath ? await loadConfigFile(configPath) : {}),
+        detached,
+        handleFile,
+    };
+
+    // Ctrl-C while starting aborts the start, which releases everything it acquired
+    const abort = new AbortController();
+    const onStartSignal = () => abort.abort();
+    STOP_SIGNALS.forEach(signal => process.once(signal, onStartSignal));
+    let sandbox: Sandbox;
+    try {
+        sandbox = await Sandbox.start({
+            ...params,
+            signal: abort.signal,
+            download: { onProgress: progressBar(), onUnverified: console.warn },
+        });
+    } finally {
+        STOP_SIGNALS.forEach(signal => process.off(signal, onStartSignal));
+    }
+
+    log(`RPC URL: ${sandbox.rpcUrl}`);
+    log(`Home directory: ${sandbox.homeDir}`);
+    log("Account keys:");
+    for (const { accountId } of await sandbox.accounts()) {
+        log(`  ${accountId}\t${join(sandbox.homeDir, `${accountId}.json`)}`);
+    }
+    if (detached) {
+        const handleOption = handleFile === DEFAULT_HANDLE_FILE ? "" : ` --handle ${handleFile}`;
+        log(`Running in the background as process ${sandbox.pid}, stop it with \`near-sandbox down${handleOption}\``);
+        return 0;
+    }
+    log("Press Ctrl-C to stop");
+    return waitForStop(sandbox, log);
+}
+
+async function waitForStop(sandbox: Sandbox, log: (line: string) => void): Promise<number> {
+    return new Promise(resolve => {
+        const onSignal = () => {
+            cleanup();
+            log("Stopping sandbox...");
+            sandbox.tearDown().then(
+                () => resolve(0),
+                error => {
+                    log(`Failed to tear down sandbox: ${error instanceof Error ? error.message : String(error)}`);
+                    resolve(1);
+                }
+            );
+        };
+        const onCrash = (error: SandboxCrashError) => {
+            cleanup();
+            log(error.message);
+            sandbox.tearDown().catch(() => undefined).then(() => resolve(1));
+        };
+        const cleanup = () => {
+            STOP_SIGNALS.forEach(signal => process.off(signal, onSignal));
+            sandbox.off("crash", onCrash);
+        };
+        STOP_SIGNALS.forEach(signal => process.on(signal, onSignal));
+        sandbox.on("crash", onCrash);
+    });
+}
@@ -3,6 +3,12 @@ export enum SandboxErrors {
     RunFailed = "RunFailed",
     TearDownFailed = "TearDownFailed",
     InvalidConfig = "InvalidConfig",
+    RpcRequestFailed = "RpcRequestFailed",
+    InvalidArgument = "InvalidArgument",
+    SnapshotFailed = "SnapshotFailed",
+    ImportFailed = "ImportFailed",
+    ProcessCrashed = "ProcessCrashed",
+    Aborted = "Aborted",
 }
 
 export enum BinaryErrors {
@@ -10,6 +16,8 @@ export enum BinaryErrors {
     DownloadFailed = "DownloadFailed",
     BinaryNotFound = "BinaryNotFound",
     InstallationFailed = "InstallationFailed",
+    ChecksumMismatch = "ChecksumMismatch",
+    InvalidVersion = "InvalidVersion",
 }
 
 export enum TcpAndLockErrors {
@@ -18,12 +26,48 @@ export enum TcpAndLockErrors {
     PortAcquisitionFailed = "PortAcquisitionFailed",
 }
 
+export enum RpcErrors {
+    UnknownAccount = "UnknownAccount",
+    UnknownAccessKey = "UnknownAccessKey",
+    UnknownBlock = "UnknownBlock",
+    UnknownChunk = "UnknownChunk",
+    UnknownTransaction = "UnknownTransaction",
+    NoContractCode = "NoContractCode",
+    ContractExecutionError = "ContractExecutionError",
+    InvalidTransaction = "InvalidTransaction",
+    Timeout = "Timeout",
+    ParseError = "ParseError",
+    InternalError = "InternalError",
+}
+
+export type ErrorType = SandboxErrors | BinaryErrors | TcpAndLockErrors | RpcErrors | "UntypedError";
+
 export class TypedError extends Error {
-    type: SandboxErrors | BinaryErrors | TcpAndLockErrors | "UntypedError";
+    type: ErrorType;
     cause?: Error;
-    constructor(message?: string, type?: SandboxErrors | BinaryErrors | TcpAndLockErrors | "UntypedError", cause?: Error) {
+    constructor(message?: string, type?: ErrorType, cause?: Error) {
         super(message);
         this.type = type || "UntypedError";
         this.cause = cause;
     }
+}
+
+/**
+ * Thrown by pending operations and emitted as `crash` when the sandbox process exits without being stopped.
+ * @property exitCode - Exit code of the process, null if it was killed by a signal or failed to spawn.
+ * @property signal - Signal that killed the process, if any.
+ * @property stderr - The last lines the process printed to stderr.
+ */
+export class SandboxCrashError extends TypedError {
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    stderr: string[];
+    constructor(exitCode: number | null, signal: NodeJS.Signals | null, stderr: string[], cause?: Error) {
+        const reason = signal ? `signal ${signal}` : `code ${exitCode}`;
+        const output = stderr.length > 0 ? `\nLast stderr lines:\n${stderr.join("\n")}` : "";
+        super(`Sandbox process exited unexpectedly with ${reason}${output}`, SandboxErrors.ProcessCrashed, cause);
+        this.exitCode = exitCode;
+        this.signal = signal;
+        this.stderr = stderr;
+    }
 }
\ No newline at end of file
@@ -1,9 +1,49 @@
 export {
     SandboxConfig,
     GenesisAccount,
+    GenesisContract,
+    AccountCredentials,
     DEFAULT_ACCOUNT_ID,
     DEFAULT_PUBLIC_KEY,
     DEFAULT_PRIVATE_KEY,
-    DEFAULT_BALANCE
+    DEFAULT_BALANCE,
+    DEFAULT_CONTRACT_BALANCE,
+    validateSandboxConfig
 } from './sandbox/config';
-export * from './sandbox/Sandbox';
\ No newline at end of file
+export {
+    StateRecord,
+    AccountRecord,
+    AccessKeyRecord,
+    AccessKeyPermission,
+    ContractRecord,
+    DataRecord
+} from './sandbox/records';
+export { ImportConfig, ImportAccount } from './sandbox/importState';
+export { SandboxHandle } from './sandbox/sandboxUtils';
+export { ReapOptions, ReapResult } from './sandbox/reap';
+export { LogOptions, SandboxLogLine, SandboxLogLevel, parseLogLine } from './sandbox/logs';
+export { DownloadOptions, DownloadProgress } from './binary/sources';
+export { SandboxConfigFile, ConfigFileAccount, ConfigFileContract, loadConfigFile } from './cli/configFile';
+export { TypedError, ErrorType, SandboxErrors, BinaryErrors, TcpAndLockErrors, RpcErrors, SandboxCrashError } from './errors';
+export {
+    SandboxRpcClient,
+    BlockReference,
+    Finality,
+    TxExecutionStatus,
+    StatusResponse,
+    BlockResponse,
+    BlockHeaderView,
+    ChunkResponse,
+    ChunkHeaderView,
+    AccountView,
+    AccessKeyView,
+    AccessKeyListView,
+    AccessKeyPermissionView,
+    ContractCodeView,
+    ViewStateResponse,
+    CallFunctionResponse,
+    FinalExecutionOutcome
+} from './sandbox/rpc';
+export * from './sandbox/Sandbox';
+export * from './sandbox/SandboxPool';
+export * from './sandbox/SandboxNetwork';
@@ -1,13 +1,35 @@
 import { spawnWithArgsAndVersion } from "./binary/binaryExecution";
-import { DEFAULT_NEAR_SANDBOX_VERSION } from "./sandbox/Sandbox";
+import { resolveVersion } from "./binary/version";
+import { runBinaryCommand } from "./cli/binary";
+import { runDownCommand, runStatusCommand } from "./cli/daemon";
+import { runReapCommand } from "./cli/reap";
+import { runStartCommand, runUpCommand } from "./cli/start";
 
 async function run() {
     try {
         if (process.argv.length < 3) {
             process.argv.push("--help");
         }
-        const sandboxProcess = await spawnWithArgsAndVersion(DEFAULT_NEAR_SANDBOX_VERSION, process.argv.slice(2), [null, 'inherit', 'inherit']);
+        // `near-sandbox binary ...` manages the downloaded binaries, `start`, `up`, `status` and `down` run
+        // a configured sandbox and `reap` cleans up after exited ones, everything else goes to the binary
+        const commands = new Map<string, (args: string[]) => Promise<number>>([
+            ["binary", runBinaryCommand],
+            ["start", runStartCommand],
+            ["up", runUpCommand],
+            ["status", runStatusCommand],
+            ["down", runDownCommand],
+            ["reap", runReapCommand],
+        ]);
+        const command = commands.get(process.argv[2]!);
+        if (command) {
+            process.exit(await command(process.argv.slice(3)));
+        }
+        const sandboxProcess = await spawnWithArgsAndVersion(await resolveVersion(), process.argv.slice(2), [null, 'inherit', 'inherit']);
 
+        sandboxProcess.on("error", (error) => {
+            console.error(`Failed to run sandbox process: ${error.message}`);
+            process.exit(1);
+        });
         sandboxProcess.on("exit", (code) => {
             if (code !== 0) {
                 console.error(`Sandbox process exited with code ${code}`);
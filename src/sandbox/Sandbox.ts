@@ -1,21 +1,150 @@
-import { DirectoryResult } from "tmp-promise";
 import { initConfigsWithVersion, spawnWithArgsAndVersion } from "../binary/binaryExecution";
-import { overrideConfigs, SandboxConfig } from "./config";
-import { ChildProcess } from "child_process";
-import { acquireOrLockPort, createTmpDir, dumpStateFromPath, rpcSocket } from "./sandboxUtils";
-import { unlock } from "proper-lockfile";
-import { rm } from "fs/promises";
-import { SandboxErrors, TypedError } from "../errors";
+import { AccountCredentials, overrideConfigs, readAccountsKeys, SandboxConfig, validateSandboxConfig } from "./config";
+import { ChildProcess, StdioOptions } from "child_process";
+import {
+    acquireOrLockPort,
+    connectableHost,
+    createTmpDir,
+    DEFAULT_RPC_HOST,
+    dumpStateFromPath,
+    isInitializedHomeDir,
+    isPidAlive,
+    readSandboxHandle,
+    readSandboxMetadata,
+    releasePortLock,
+    rpcSocket,
+    writeSandboxHandle,
+    writeSandboxMetadata
+} from "./sandboxUtils";
+import { cp, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { closeSync, existsSync, openSync, rmSync } from "fs";
+import { randomBytes } from "crypto";
+import { join, resolve } from "path";
+import { SandboxCrashError, SandboxErrors, TypedError } from "../errors";
+import { EventEmitter } from "events";
 import got from "got";
+import { onExit } from "signal-exit";
 import { DEFAULT_NEAR_SANDBOX_VERSION } from "../constants";
+import { StateRecord, toNearcoreRecords } from "./records";
+import { SandboxRpcClient, StatusResponse } from "./rpc";
+import { LogOptions, SandboxLogLine, SandboxLogs } from "./logs";
+import { DownloadOptions } from "../binary/sources";
+import { resolveVersion } from "../binary/version";
+import { reapSandboxes, ReapOptions, ReapResult } from "./reap";
 
 // Re-export for backwards compatibility
 export { DEFAULT_NEAR_SANDBOX_VERSION };
 
-interface StartParams {
+/**
+ * A saved copy of the sandbox data directory, created by `Sandbox.snapshot()`.
+ * @property id - Identifier of the snapshot, unique within its home directory, also across runs of a persistent `homeDir`.
+ * @property path - Directory that holds the copied node data.
+ */
+export interface SandboxSnapshot {
+    readonly id: string;
+    readonly path: string;
+}
+
+/**
+ * How a node process exited. `code` is null if it was killed by `signal`.
+ */
+export interface SandboxExit {
+    code: number | null;
+    signal: NodeJS.Signals | null;
+}
+
+interface SandboxInit {
+    rpcUrl: string;
+    // address the node is bound to
+    host: string;
+    homeDir: string;
+    ownsHomeDir: boolean;
+    rpcPort: number;
+    netPort: number;
+    rpcPortLockPath: string;
+    netPortLockPath: string;
+    version: string;
+    // a spawned node, or the PID of a node started by another process
+    childProcess: ChildProcess | number;
+    runArgs: string[];
+    logs: SandboxLogs;
+    timeoutMs: number;
+    readyWhen: ReadinessCondition;
+    outputFile?: string;
+    handleFile?: string;
+}
+
+const DATA_DIR = "data";
+// output of the node is read into `SandboxLogs`
+const SANDBOX_STDIO: StdioOptions = ['ignore', 'pipe', 'pipe'];
+const SNAPSHOTS_DIR = "snapshots";
+// number of stderr lines attached to `SandboxCrashError`
+const CRASH_STDERR_LINES = 20;
+const STATUS_POLL_INTERVAL_MS = 500;
+// output of a detached node, in its home directory unless `logs.file` is set
+const DETACHED_LOG_FILE = "sandbox.log";
+
+/**
+ * When a started node is considered ready:
+ *   - `"status"` (default) - `/status` responds successfully.
+ *   - `"firstBlock"` - the node has produced a block after genesis.
+ *   - a predicate called with every successful `/status` response and the RPC client until it returns true.
+ */
+export type ReadinessCondition =
+    | "status"
+    | "firstBlock"
+    | ((status: StatusResponse, rpc: SandboxRpcClient) => boolean | Promise<boolean>);
+
+/**
+ * Options accepted by `Sandbox.start()`.
+ * @property config - Sandbox configuration like RPC port, additional genesis data, accounts etc.
+ * @property version - NEAR sandbox binary version, a semver range matched against the downloaded versions, or `"latest-cached"`.
+ * Defaults to `NEAR_SANDBOX_VERSION`, then the version pinned in `.near-sandbox.json` or `package.json`, see `resolveVersion`.
+ * @property homeDir - Persistent home directory to use instead of a temporary one.
+ * An already initialized directory is reused as is, without applying `config` overrides;
+ * otherwise it is initialized in place. It is never deleted by `tearDown()`.
+ * @property timeoutMs - How long to wait for the node to become ready, also used by restarts and `fastForward()`.
+ * Defaults to `NEAR_RPC_TIMEOUT_SECS` seconds.
+ * @property signal - Aborts the start, including a binary download or `init` in progress. The node is killed and everything
+ * the start acquired is released.
+ * @property readyWhen - When the node is considered ready, see `ReadinessCondition`.
+ * @property download - Retries and progress reporting for downloading the binary if it isn't cached yet.
+ * @property detached - Run the node in the background so it outlives the current process. Its output is appended to
+ * `logs.file`, or `sandbox.log` in `homeDir`, instead of being captured by `logs()`.
+ * Other sandboxes are cleaned up when the current process exits or is ended by a signal such as `SIGINT` or `SIGTERM`.
+ * @property handleFile - Path of a file to write the PID, `rpcUrl`, `homeDir`, version and lock paths of the sandbox to,
+ * so other processes can use it with `Sandbox.connect()`. Removed by `tearDown()`.
+ */
+export interface StartParams {
     config?: SandboxConfig;
     version?: string;
+    homeDir?: string;
+    logs?: LogOptions;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+    readyWhen?: ReadinessCondition;
+    download?: DownloadOptions;
+    detached?: boolean;
+    handleFile?: string;
 }
+/*
+  * Events emitted by `Sandbox`:
+  * ready - The node is started and responds on `rpcUrl`, after `Sandbox.start()` and every restart.
+  * exit - The node process exited, whether it was stopped or crashed.
+  * crash - The node process exited without being stopped. Pending waits on the sandbox reject with the same error.
+  * error - The node process could not be spawned or signalled, or the log file could not be written. Only emitted when a listener is registered.
+  */
+export interface Sandbox {
+    on(event: "ready", listener: () => void): this;
+    on(event: "exit", listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+    on(event: "crash", listener: (error: SandboxCrashError) => void): this;
+    on(event: "error", listener: (error: TypedError) => void): this;
+    once(event: "ready", listener: () => void): this;
+    once(event: "exit", listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+    once(event: "crash", listener: (error: SandboxCrashError) => void): this;
+    once(event: "error", listener: (error: TypedError) => void): this;
+}
+
 /**
  * `Sandbox` provides an isolated, ephemeral NEAR blockchain environment for local testing.
  *
@@ -39,24 +168,97 @@ interface StartParams {
  * ```
  *
  * @property rpcUrl - The URL of the running sandbox's RPC endpoint.(e.g. "http://127.0.0.1:{port}")
+ * Uses `config.advertisedHost` if set, so it may only be reachable from other hosts or containers.
+ * @property rpc - A typed JSON-RPC client connected to the RPC endpoint through the address the node is bound to.
  * @property homeDir - The path to the temporary home directory used by the sandbox.
  * This directory contains all the sandbox state, configuration and accounts keys.
+ * @property rpcPort - The port the RPC endpoint is bound to.
+ * @property netPort - The port the node's network is bound to.
+ * @property version - The version of the `near-sandbox` binary the node runs.
  * @property rpcPortLockPath - Path to the lock file that prevents other processes from using the same RPC port until this sandbox is started.
  * @property netPortLockPath - Path to the lock file for the network port.
  */
-export class Sandbox {
+export class Sandbox extends EventEmitter {
     public readonly rpcUrl: string;
+    public readonly rpc: SandboxRpcClient;
     public readonly homeDir: string;
+    public readonly rpcPort: number;
+    public readonly netPort: number;
     public readonly rpcPortLockPath: string;
     public readonly netPortLockPath: string;
-    private childProcess: ChildProcess;
+    public readonly version: string;
+    private childProcess?: ChildProcess;
+    private externalPid?: number;
+    private pidWatcher?: NodeJS.Timeout;
+    private expectedExit = false;
+    private exitPromise!: Promise<SandboxExit>;
+    private crashPromise!: Promise<never>;
+    private readonly runArgs: string[];
+    private readonly ownsHomeDir: boolean;
+    private readonly logBuffer: SandboxLogs;
+    private readonly timeoutMs: number;
+    private readonly readyWhen: ReadinessCondition;
+    private readonly outputFile?: string;
+    private readonly handleFile?: string;
+    private readonly host: string;
+    // where this process reaches the RPC endpoint, `rpcUrl` may use an advertised host instead
+    private readonly localRpcUrl: string;
+    private portsLocked = true;
+
+    // sandboxes started by this process and not torn down yet, cleaned up when the process is interrupted or exits
+    private static readonly live = new Set<Sandbox>();
+    private static removeExitHook?: () => void;
+
+    private constructor(init: SandboxInit) {
+        super();
+        this.rpcUrl = init.rpcUrl;
+        this.host = init.host;
+        this.localRpcUrl = `http://${rpcSocket(init.rpcPort, connectableHost(init.host))}`;
+        this.rpc = new SandboxRpcClient(this.localRpcUrl, () => this.crashPromise);
+        this.homeDir = init.homeDir;
+        this.rpcPort = init.rpcPort;
+        this.netPort = init.netPort;
+        this.rpcPortLockPath = init.rpcPortLockPath;
+        this.netPortLockPath = init.netPortLockPath;
+        this.version = init.version;
+        this.runArgs = init.runArgs;
+        this.ownsHomeDir = init.ownsHomeDir;
+        this.logBuffer = init.logs;
+        this.logBuffer.onFileError(error => {
+            if (this.listenerCount("error") > 0) {
+                this.emit("error", new TypedError(`Failed to write log file: ${error.message}`, SandboxErrors.RunFailed, error));
+            }
+        });
+        this.timeoutMs = init.timeoutMs;
+        this.readyWhen = init.readyWhen;
+        this.outputFile = init.outputFile;
+        this.handleFile = init.handleFile;
+        if (typeof init.childProcess === "number") {
+            this.attachPid(init.childProcess);
+        } else {
+            this.attachProcess(init.childProcess);
+        }
+    }
 
-    private constructor(rpcUrl: string, homeDir: string, childProcess: ChildProcess, rpcPortLock: string, netPortLock: string) {
-        this.rpcUrl = rpcUrl;
-        this.homeDir = homeDir;
-        this.rpcPortLockPath = rpcPortLock;
-        this.netPortLockPath = netPortLock;
-        this.childProcess = childProcess;
+    /**
+     * Whether the node process is currently running.
+     */
+    get isRunning(): boolean {
+        return this.pid !== undefined && this.isProcessAlive();
+    }
+
+    /**
+     * PID of the current node process, undefined if it failed to spawn.
+     */
+    get pid(): number | undefined {
+        return this.childProcess ? this.childProcess.pid : this.externalPid;
+    }
+
+    /**
+     * Resolves with the exit code and signal once the current node process exits, whether it was stopped or crashed.
+     */
+    get exited(): Promise<SandboxExit> {
+        return this.exitPromise;
     }
 
     /**
@@ -68,37 +270,195 @@ export class Sandbox {
     * @param params Configuration options:
     *   - `config` - Optional sandbox configuration like RPC port, additional genesis data, accounts etc.
     *   - `version` - Optional NEAR sandbox binary version.
+    *   - `homeDir` - Optional persistent home directory, reused as is if it is already initialized.
+    *   - `timeoutMs`, `signal`, `readyWhen` - Optional limits on how long and until when to wait for the node.
+    *   - `detached`, `handleFile` - Optionally keep the node running after this process exits and let other processes connect to it.
     *
     * @returns A ready-to-use `Sandbox` instance with `.rpcUrl` and `.homeDir` available.
     *
-    * @throws {TypedError} if the sandbox fails to start, ports cannot be locked, or config setup fails.
+    * @throws {TypedError} if the sandbox fails to start, ports cannot be locked, or config setup fails,
+    * `SandboxErrors.InvalidConfig` listing every problem found by `validateSandboxConfig()`, and `SandboxErrors.Aborted` if `signal` is aborted. A failed start kills the node, unlocks the ports and removes the temporary home directory.
     */
     static async start(params: StartParams): Promise<Sandbox> {
         const config: SandboxConfig = params.config || {};
-        const version: string = params.version || DEFAULT_NEAR_SANDBOX_VERSION;
+        validateSandboxConfig(config);
+        const version: string = await resolveVersion(params.version);
+        const timeoutMs = params.timeoutMs ?? defaultTimeoutMs();
+        const ownsHomeDir = !params.homeDir;
+        throwIfAborted(params.signal);
         // Ensure Binary downloaded with specified version
-        // Initialize tmp directory with the specified version
-        // get tmp directory with default configs
-        const tmpDir = await this.initConfigsWithVersion(version);
-        // get ports
-        const { port: rpcPort, lockFilePath: rpcPortLock } = await acquireOrLockPort(config?.rpcPort);
-        const { port: netPort, lockFilePath: netPortLock } = await acquireOrLockPort(config?.netPort);
+        // Initialize tmp directory (or the provided home directory, unless it is already initialized) with the specified version
+        const homeDir = params.homeDir ? resolve(params.homeDir) : (await createTmpDir()).path;
+        const homeDirExisted = existsSync(homeDir);
+        const lockPaths: string[] = [];
+        let sandbox: Sandbox | undefined;
+        let initialized = false;
+        try {
+            if (ownsHomeDir || !(await isInitializedHomeDir(homeDir))) {
+                await mkdir(homeDir, { recursive: true });
+                initialized = true;
+                await initConfigsWithVersion(version, homeDir, params.download, params.signal);
+                // set sandbox configs right away, so an initialized home directory always has them
+                await overrideConfigs(homeDir, config);
+            }
+            throwIfAborted(params.signal);
+            // get ports
+            const host = config.host ?? DEFAULT_RPC_HOST;
+            const portOptions = { host, range: config.portRange };
+            const { port: rpcPort, lockFilePath: rpcPortLock } = await acquireOrLockPort(config?.rpcPort, portOptions);
+            lockPaths.push(rpcPortLock);
+            const { port: netPort, lockFilePath: netPortLock } = await acquireOrLockPort(config?.netPort, portOptions);
+            lockPaths.push(netPortLock);
 
-        const rpcAddr = rpcSocket(rpcPort);
-        const netAddr = rpcSocket(netPort);
-        // set sandbox configs
-        await overrideConfigs(tmpDir.path, config);
-        // create options and args to spawn the process
-        const args = ["--home", tmpDir.path, "run", "--rpc-addr", rpcAddr, "--network-addr", netAddr];
-        // spawn sandbox with the specified version and arguments, get ChildProcess
-        const childProcess = await spawnWithArgsAndVersion(version, args);
+            const rpcAddr = rpcSocket(rpcPort, host);
+            const netAddr = rpcSocket(netPort, host);
+            await writeSandboxMetadata(homeDir, { version, rpcPort, netPort, host, ownerPid: process.pid, detached: params.detached });
+            throwIfAborted(params.signal);
+            // create options and args to spawn the process
+            const args = ["--home", homeDir, "run", "--rpc-addr", rpcAddr, "--network-addr", netAddr];
+            // a detached node writes into its log file itself
+            const outputFile = params.detached ? resolve(params.logs?.file ?? join(homeDir, DETACHED_LOG_FILE)) : undefined;
+            const logs = params.detached
+                ? new SandboxLogs({ ...params.logs, file: undefined })
+                : new SandboxLogs({ echo: process.env['NEAR_ENABLE_SANDBOX_LOG'] === "1", ...params.logs });
+            await logs.open().catch(error => {
+                throw new TypedError(`Failed to open log file ${params.logs?.file}`,
+                    SandboxErrors.InvalidConfig,
+                    error instanceof Error ? error : new Error(String(error)));
+            });
+            // spawn sandbox with the specified version and arguments, get ChildProcess
+            const childProcess = await spawnNode(version, args, outputFile);
 
-        const rpcUrl = `http://${rpcAddr}`;
+            sandbox = new Sandbox({
+                rpcUrl: `http://${rpcSocket(rpcPort, config.advertisedHost ?? connectableHost(host))}`,
+                host,
+                homeDir,
+                ownsHomeDir,
+                rpcPort,
+                netPort,
+                rpcPortLockPath: rpcPortLock,
+                netPortLockPath: netPortLock,
+                version,
+                childProcess,
+                runArgs: args,
+                logs,
+                timeoutMs,
+                readyWhen: params.readyWhen ?? "status",
+                outputFile,
+                handleFile: params.handleFile && resolve(params.handleFile),
+            });
+            // a detached node is meant to outlive this process
+            if (!params.detached) {
+                Sandbox.track(sandbox);
+            }
+            // Ping rpcUrl to ensure the process is ready
+            await sandbox.waitUntilReady(params.signal);
+            await sandbox.writeHandle();
+            return sandbox;
+        } catch (error) {
+            // leave nothing behind: the process, the port locks and the temporary home directory
+            if (sandbox) {
+                await sandbox.tearDown().catch(() => undefined);
+            } else {
+                await Promise.allSettled(lockPaths.map(lockPath => releasePortLock(lockPath)));
+                if (ownsHomeDir) {
+                    await rm(homeDir, { recursive: true, force: true }).catch(() => undefined);
+                }
+            }
+            // a provided home directory initialized by this call must not look initialized to the next start
+            if (!ownsHomeDir && initialized) {
+                await uninitializeHomeDir(homeDir, homeDirExisted).catch(() => undefined);
+            }
+            throwIfAborted(params.signal);
+            throw error;
+        }
+    }
 
-        // Ping rpcUrl to ensure the process is ready
-        await this.waitUntilReady(rpcUrl);
+    /**
+     * Resumes a previously stopped sandbox from its home directory.
+     *
+     * The node is started with the same binary version and ports it last ran with,
+     * unless they are overridden in `params`. The directory is never deleted by `tearDown()`.
+     *
+     * @example
+     * ```ts
+     * const sandbox = await Sandbox.start({ homeDir: './.near' });
+     * await sandbox.stop();
+     * // later, possibly in another process
+     * const resumed = await Sandbox.open('./.near');
+     * ```
+     *
+     * @param homeDir A home directory previously used by a sandbox.
+     * @param params Optional `version` and port overrides, and any other `Sandbox.start()` options.
+     * @throws {TypedError} `SandboxErrors.InvalidArgument` if `homeDir` is not an initialized sandbox home directory.
+     */
+    static async open(homeDir: string, params: Omit<StartParams, "homeDir"> = {}): Promise<Sandbox> {
+        if (!(await isInitializedHomeDir(homeDir))) {
+            throw new TypedError(`${homeDir} is not an initialized sandbox home directory`, SandboxErrors.InvalidArgument);
+        }
+        const metadata = await readSandboxMetadata(homeDir);
+        return this.start({
+            ...params,
+            homeDir,
+            version: params.version ?? metadata?.version,
+            config: {
+                rpcPort: metadata?.rpcPort,
+                netPort: metadata?.netPort,
+                host: metadata?.host,
+                ...params.config,
+            },
+        });
+    }
 
-        return new Sandbox(rpcUrl, tmpDir.path, childProcess, rpcPortLock, netPortLock);
+    /**
+     * Finds what sandboxes of exited processes left behind and removes it: nodes whose owner exited without
+     * tearing them down, temporary home directories and port lock files. Detached nodes and everything
+     * still used by a live process are left alone.
+     *
+     * @param options `dryRun` only reports what would be removed.
+     * @returns The PIDs of the stopped nodes and the removed directories and lock files.
+     */
+    static async reap(options: ReapOptions = {}): Promise<ReapResult> {
+        return reapSandboxes(options);
+    }
+
+    /**
+     * Connects to a sandbox started in another process with a `handleFile`, e.g. a detached sandbox shared by
+     * all workers of a test run. The returned instance controls the same node: `stop()` and `tearDown()` stop it
+     * for every process, and `start()` starts it again in the background, updating the handle file.
+     *
+     * @example
+     * ```ts
+     * // global setup
+     * await Sandbox.start({ detached: true, handleFile: '/tmp/sandbox.json' });
+     * // in every worker
+     * const sandbox = await Sandbox.connect('/tmp/sandbox.json');
+     * ```
+     *
+     * @param handleFile The `handleFile` the sandbox was started with.
+     * @param params How long to wait for the node to respond, and when it is considered ready.
+     * @throws {TypedError} `SandboxErrors.InvalidArgument` if the handle file can't be read or its node is not running.
+     */
+    static async connect(
+        handleFile: string,
+        params: Pick<StartParams, "timeoutMs" | "readyWhen" | "signal"> = {}
+    ): Promise<Sandbox> {
+        const handle = await readSandboxHandle(handleFile);
+        if (!isPidAlive(handle.pid)) {
+            throw new TypedError(`Sandbox process ${handle.pid} from ${handleFile} is not running`, SandboxErrors.InvalidArgument);
+        }
+        const sandbox = new Sandbox({
+            ...handle,
+            host: handle.host ?? DEFAULT_RPC_HOST,
+            childProcess: handle.pid,
+            logs: new SandboxLogs(),
+            timeoutMs: params.timeoutMs ?? defaultTimeoutMs(),
+            readyWhen: params.readyWhen ?? "status",
+            outputFile: handle.logFile ?? join(handle.homeDir, DETACHED_LOG_FILE),
+            handleFile: resolve(handleFile),
+        });
+        await sandbox.waitUntilReady(params.signal);
+        return sandbox;
     }
 
     /**
@@ -116,7 +476,241 @@ export class Sandbox {
         nodeKey: Record<string, unknown>;
         validatorKey: Record<string, unknown>;
     }> {
-        return dumpStateFromPath(this.homeDir);
+        return dumpStateFromPath(this.homeDir, this.version);
+    }
+
+    /**
+     * Lists the keys of the genesis accounts, the default `sandbox` account and any `additionalAccounts`,
+     * read from the key files in `homeDir`.
+     */
+    async accounts(): Promise<AccountCredentials[]> {
+        return readAccountsKeys(this.homeDir);
+    }
+
+    /**
+     * Looks up the keys of a genesis account.
+     *
+     * @throws {TypedError} `SandboxErrors.InvalidArgument` if there are no keys for `accountId` in `homeDir`.
+     */
+    async getKeyPair(accountId: string): Promise<AccountCredentials> {
+        const credentials = (await this.accounts()).find(account => account.accountId === accountId);
+        if (!credentials) {
+            throw new TypedError(`No keys found for account ${accountId}`, SandboxErrors.InvalidArgument);
+        }
+        return credentials;
+    }
+
+    /**
+     * Writes the keys of all genesis accounts in the near-cli credentials layout, `<dir>/<networkId>/<accountId>.json`,
+     * so CLI tools and scripts can sign transactions against the sandbox.
+     *
+     * @param dir Credentials directory, e.g. `~/.near-credentials`.
+     * @param networkId Network name the keys are stored under. Defaults to `sandbox`.
+     * @returns Paths of the written files.
+     */
+    async exportCredentials(dir: string, networkId: string = "sandbox"): Promise<string[]> {
+        const networkDir = join(dir, networkId);
+        await mkdir(networkDir, { recursive: true });
+
+        const paths: string[] = [];
+        for (const account of await this.accounts()) {
+            const filePath = join(networkDir, `${account.accountId}.json`);
+            const keyJson = {
+                account_id: account.accountId,
+                public_key: account.publicKey,
+                private_key: account.privateKey,
+            };
+            await writeFile(filePath, JSON.stringify(keyJson, null, 2), { encoding: 'utf-8', mode: 0o600 });
+            paths.push(filePath);
+        }
+        return paths;
+    }
+
+    /**
+     * Returns the most recent lines printed by the node, oldest first, including lines from before restarts.
+     * The number of lines kept is set by the `logs.bufferSize` start option.
+     */
+    logs(): SandboxLogLine[] {
+        return this.logBuffer.lines();
+    }
+
+    /**
+     * Yields every line the node prints from now on, until the sandbox is torn down.
+     *
+     * @example
+     * ```ts
+     * for await (const line of sandbox.streamLogs()) {
+     *   if (line.level === 'ERROR') console.error(line.message);
+     * }
+     * ```
+     */
+    streamLogs(): AsyncIterableIterator<SandboxLogLine> {
+        return this.logBuffer.stream();
+    }
+
+    /**
+     * Overwrites accounts, access keys, contract code and contract storage of the running sandbox
+     * by sending all records in a single `sandbox_patch_state` RPC call.
+     *
+     * If a `Contract` record is patched without an `Account` record for the same account,
+     * the current account is fetched and patched as well so that its code hash matches the new code.
+     *
+     * @example
+     * ```ts
+     * await sandbox.patchState([
+     *   { Account: { accountId: 'alice.sandbox', balance: NEAR.toUnits(100) } },
+     *   { AccessKey: { accountId: 'alice.sandbox', publicKey: keyPair.getPublicKey().toString() } },
+     *   { Contract: { accountId: 'alice.sandbox', code: './res/contract.wasm' } },
+     *   { Data: { accountId: 'alice.sandbox', key: 'STATE', value: new Uint8Array([1, 2, 3]) } },
+     * ]);
+     * ```
+     *
+     * @param records The state records to write.
+     * @throws {TypedError} with an `RpcErrors` type, or `SandboxErrors.RpcRequestFailed`, if the node rejects the patch.
+     */
+    async patchState(records: StateRecord[]): Promise<void> {
+        const patchedAccounts = new Set<string>();
+        for (const record of records) {
+            if ("Account" in record) patchedAccounts.add(record.Account.accountId);
+        }
+
+        const accountsToUpdate: StateRecord[] = [];
+        for (const record of records) {
+            const accountId = "Contract" in record ? record.Contract.accountId : undefined;
+            if (!accountId || patchedAccounts.has(accountId)) continue;
+
+            const account = await this.rpc.viewAccount(accountId);
+            accountsToUpdate.push({
+                Account: {
+                    accountId,
+                    balance: BigInt(account.amount),
+                    locked: BigInt(account.locked),
+                    storageUsage: account.storage_usage,
+                }
+            });
+            patchedAccounts.add(accountId);
+        }
+
+        const nearcoreRecords = await toNearcoreRecords([...records, ...accountsToUpdate]);
+        await this.rpc.sandboxPatchState(nearcoreRecords);
+    }
+
+    /**
+     * Produces `blocks` empty blocks instantly via the `sandbox_fast_forward` RPC.
+     * Block timestamps move forward as if the blocks were produced at the configured block production delay.
+     *
+     * Resolves once the new head height is visible on `/status`.
+     *
+     * @param blocks Number of blocks to skip, must be a positive integer.
+     * @throws {TypedError} if the node rejects the request or doesn't reach the new height within the `timeoutMs` of the sandbox.
+     */
+    async fastForward(blocks: number): Promise<void> {
+        if (!Number.isInteger(blocks) || blocks <= 0) {
+            throw new TypedError(`Expected a positive integer number of blocks, got ${blocks}`, SandboxErrors.InvalidArgument);
+        }
+        const { sync_info: { latest_block_height: startHeight } } = await this.pollStatus(
+            () => true,
+            "Sandbox status is not available."
+        );
+
+        await this.rpc.sandboxFastForward(blocks);
+
+        const targetHeight = startHeight + blocks;
+        await this.pollStatus(
+            (status) => status.sync_info.latest_block_height >= targetHeight,
+            `Sandbox did not reach block height ${targetHeight} within the timeout period.`
+        );
+    }
+
+    /**
+     * Moves the chain forward by at least `durationMs` of block time.
+     * The duration is converted into a number of blocks using `consensus.min_block_production_delay`
+     * from the node's config.json, and then skipped with `fastForward()`.
+     *
+     * @param durationMs Duration in milliseconds, must be positive.
+     */
+    async advanceTime(durationMs: number): Promise<void> {
+        if (!(durationMs > 0)) {
+            throw new TypedError(`Expected a positive duration, got ${durationMs}`, SandboxErrors.InvalidArgument);
+        }
+        const config = JSON.parse(await readFile(join(this.homeDir, "config.json"), "utf-8"));
+        const delay = config?.consensus?.min_block_production_delay;
+        const delayMs = delay ? delay.secs * 1000 + delay.nanos / 1e6 : 0;
+        if (!(delayMs > 0)) {
+            throw new TypedError("Could not read min_block_production_delay from config.json", SandboxErrors.InvalidConfig);
+        }
+
+        await this.fastForward(Math.ceil(durationMs / delayMs));
+    }
+
+    /**
+     * Saves the current chain state so it can be brought back later with `restore()`.
+     *
+     * The node is stopped for the duration of the copy so that its database is consistent on disk,
+     * then started again on the same ports if it was running. Snapshots are stored in the `snapshots` directory of `homeDir`,
+     * so they are removed by `tearDown()` with a temporary home directory and kept in a `homeDir` you provided.
+     *
+     * @example
+     * ```ts
+     * const snap = await sandbox.snapshot();
+     * // ...mutate state in a test...
+     * await sandbox.restore(snap);
+     * ```
+     *
+     * @returns A handle to the snapshot that can be passed to `restore()` any number of times.
+     */
+    async snapshot(): Promise<SandboxSnapshot> {
+        // a persistent home directory may hold snapshots of earlier runs, which must not be overwritten
+        const id = `snapshot-${Date.now()}-${randomBytes(4).toString("hex")}`;
+        const snapshot: SandboxSnapshot = { id, path: join(this.homeDir, SNAPSHOTS_DIR, id) };
+
+        await this.whileStopped(
+            () => cp(join(this.homeDir, DATA_DIR), snapshot.path, { recursive: true }),
+            `Failed to create snapshot ${snapshot.id}`
+        );
+        return snapshot;
+    }
+
+    /**
+     * Rolls the chain back to a snapshot taken with `snapshot()`.
+     * A running node is restarted on the same `rpcUrl` and ports with the snapshot's data directory.
+     *
+     * @param snapshot A snapshot previously returned by `snapshot()`.
+     * @throws {TypedError} `SandboxErrors.SnapshotFailed` if the snapshot doesn't exist or can't be copied.
+     */
+    async restore(snapshot: SandboxSnapshot): Promise<void> {
+        if (!existsSync(snapshot.path)) {
+            throw new TypedError(`Snapshot ${snapshot.id} does not exist at ${snapshot.path}`, SandboxErrors.SnapshotFailed);
+        }
+
+        await this.whileStopped(async () => {
+            const dataDir = join(this.homeDir, DATA_DIR);
+            await rm(dataDir, { recursive: true, force: true });
+            await cp(snapshot.path, dataDir, { recursive: true });
+        }, `Failed to restore snapshot ${snapshot.id}`);
+    }
+
+    // Runs `copy` with the node stopped and starts it again afterwards, re-locking its ports, if it was running.
+    // A failed copy is thrown as `SnapshotFailed` even if the node fails to start again as well.
+    private async whileStopped(copy: () => Promise<void>, failureMessage: string): Promise<void> {
+        const wasRunning = this.isRunning;
+        await this.killProcess();
+        let failure: TypedError | undefined;
+        try {
+            await copy();
+        } catch (error) {
+            failure = new TypedError(failureMessage,
+                SandboxErrors.SnapshotFailed,
+                error instanceof Error ? error : new Error(String(error)));
+        }
+        if (wasRunning) {
+            try {
+                await this.start();
+            } catch (error) {
+                if (!failure) throw error;
+            }
+        }
+        if (failure) throw failure;
     }
 
     /**
@@ -125,20 +719,63 @@ export class Sandbox {
      * - Unlocking the previously locked ports
      */
     async stop(): Promise<void> {
-        this.childProcess.kill();
+        await this.killProcess();
+        if (this.portsLocked) {
+            this.portsLocked = false;
+            await Promise.allSettled([
+                releasePortLock(this.rpcPortLockPath),
+                releasePortLock(this.netPortLockPath)
+            ]);
+        }
+    }
 
-        await new Promise(resolve => this.childProcess.once('exit', resolve));
-        await Promise.allSettled([
-            unlock(this.rpcPortLockPath),
-            unlock(this.netPortLockPath)
-        ]);
+    /**
+     * Starts the node again after `stop()`, or after it has crashed.
+     *
+     * Keeps the same `homeDir`, so all chain state is preserved, re-locks the same RPC and network ports
+     * and respawns the same binary version. Does nothing if the node is already running.
+     *
+     * @throws {TypedError} if the ports were taken in the meantime or the node fails to become ready.
+     */
+    async start(): Promise<void> {
+        if (this.portsLocked && this.isRunning) {
+            return;
+        }
+        if (!this.portsLocked) {
+            const rpcLock = await acquireOrLockPort(this.rpcPort, { host: this.host });
+            try {
+                await acquireOrLockPort(this.netPort, { host: this.host });
+            } catch (error) {
+                await releasePortLock(rpcLock.lockFilePath).catch(() => undefined);
+                throw error;
+            }
+            this.portsLocked = true;
+        }
+        await this.spawnProcess();
+    }
 
+    /**
+     * Stops the node and starts it again with the same state, ports and version.
+     * Useful to apply changes to config.json that require a reboot.
+     */
+    async restart(): Promise<void> {
+        await this.stop();
+        await this.start();
     }
     /**
-     * Calls `stop()` to terminate the sandbox and then cleans up the home directory.
+     * Calls `stop()` to terminate the sandbox and then cleans up the home directory,
+     * unless the directory was provided by the user through `homeDir`.
      */
     async tearDown(): Promise<void> {
+        Sandbox.untrack(this);
         await this.stop();
+        await this.logBuffer.close();
+        if (this.handleFile) {
+            await rm(this.handleFile, { force: true });
+        }
+        if (!this.ownsHomeDir) {
+            return;
+        }
         await rm(this.homeDir, { recursive: true, force: true }).catch(error => {
 
             throw new TypedError(`Sandbox teardown encountered errors`,
@@ -147,30 +784,277 @@ export class Sandbox {
         });
     }
 
-    private static async initConfigsWithVersion(version: string): Promise<DirectoryResult> {
-        const tmpDir = await createTmpDir();
-        await initConfigsWithVersion(version, tmpDir.path);
-        return tmpDir;
+    // Registers the exit hook with the first live sandbox and removes it with the last one.
+    // There is no `beforeExit` hook: a live node keeps the event loop busy, so it would never fire.
+    private static track(sandbox: Sandbox): void {
+        if (Sandbox.live.size === 0) {
+            Sandbox.removeExitHook = onExit(Sandbox.onExit);
+        }
+        Sandbox.live.add(sandbox);
+    }
+
+    private static untrack(sandbox: Sandbox): void {
+        if (Sandbox.live.delete(sandbox) && Sandbox.live.size === 0) {
+            Sandbox.removeExitHook?.();
+            Sandbox.removeExitHook = undefined;
+        }
+    }
+
+    // Runs on `process.exit()` and on signals that end the process because no other listener handles them.
+    // Neither waits for anything asynchronous, so only what can be done synchronously is cleaned up.
+    private static readonly onExit = (): void => {
+        for (const sandbox of Sandbox.live) {
+            sandbox.cleanUpSync();
+        }
+    };
+
+    private cleanUpSync(): void {
+        if (this.isProcessAlive()) {
+            this.expectedExit = true;
+            this.childProcess?.kill("SIGKILL");
+        }
+        const paths = [this.rpcPortLockPath, `${this.rpcPortLockPath}.lock`, this.netPortLockPath, `${this.netPortLockPath}.lock`];
+        if (this.handleFile) {
+            paths.push(this.handleFile);
+        }
+        if (this.ownsHomeDir) {
+            paths.push(this.homeDir);
+        }
+        paths.forEach(path => rmSync(path, { recursive: true, force: true }));
+    }
+
+    private isProcessAlive(): boolean {
+        if (this.childProcess) {
+            return this.childProcess.exitCode === null && this.childProcess.signalCode === null;
+        }
+        return this.externalPid !== undefined && isPidAlive(this.externalPid);
+    }
+
+    private async killProcess(): Promise<void> {
+        this.expectedExit = true;
+        if (this.isProcessAlive()) {
+            if (this.childProcess) {
+                this.childProcess.kill();
+            } else {
+                process.kill(this.externalPid!);
+            }
+        }
+        // a detached node, or one spawned by another process, doesn't keep the current process alive by itself
+        this.childProcess?.ref();
+        this.pidWatcher?.ref();
+        await this.exitPromise;
+    }
+
+    // respawns the node with the same version, home directory and ports it was started with
+    private async spawnProcess(): Promise<void> {
+        this.attachProcess(await spawnNode(this.version, this.runArgs, this.outputFile));
+        await this.waitUntilReady();
+        await this.writeHandle();
+    }
+
+    private async writeHandle(): Promise<void> {
+        if (!this.handleFile) {
+            return;
+        }
+        await writeSandboxHandle(this.handleFile, {
+            pid: this.pid!,
+            rpcUrl: this.rpcUrl,
+            host: this.host,
+            homeDir: this.homeDir,
+            ownsHomeDir: this.ownsHomeDir,
+            version: this.version,
+            rpcPort: this.rpcPort,
+            netPort: this.netPort,
+            rpcPortLockPath: this.rpcPortLockPath,
+            netPortLockPath: this.netPortLockPath,
+            runArgs: this.runArgs,
+            logFile: this.outputFile,
+        });
+    }
+
+    private attachProcess(child: ChildProcess): void {
+        this.childProcess = child;
+        this.externalPid = undefined;
+        this.logBuffer.attach(child);
+        const onExit = this.trackExit();
+
+        child.once("exit", (code, signal) => onExit(code, signal));
+        child.on("error", (error) => {
+            // the process failed to spawn, so it will never emit `exit`
+            if (child.pid === undefined) {
+                onExit(null, null, error);
+            }
+            if (this.listenerCount("error") > 0) {
+                this.emit("error", new TypedError(`Sandbox process error: ${error.message}`, SandboxErrors.RunFailed, error));
+            }
+        });
+    }
+
+    // Tracks a node started by another process by polling its PID, its exit code is unknown
+    private attachPid(pid: number): void {
+        this.childProcess = undefined;
+        this.externalPid = pid;
+        const onExit = this.trackExit();
+        const watcher = setInterval(() => {
+            if (!isPidAlive(pid)) {
+                clearInterval(watcher);
+                onExit(null, null);
+            }
+        }, STATUS_POLL_INTERVAL_MS);
+        watcher.unref();
+        this.pidWatcher = watcher;
     }
 
-    private static async waitUntilReady(rpcUrl: string) {
-        const timeoutSecs = parseInt(process.env["NEAR_RPC_TIMEOUT_SECS"] || '10');
-        const attempts = timeoutSecs * 2;
+    // Resets the exit and crash promises for a new node process and returns the callback for its exit,
+    // which emits `exit`, and `crash` if the exit wasn't requested by `killProcess()`
+    private trackExit(): (code: number | null, signal: NodeJS.Signals | null, cause?: Error) => void {
+        if (this.pidWatcher) {
+            clearInterval(this.pidWatcher);
+            this.pidWatcher = undefined;
+        }
+        this.expectedExit = false;
+
+        let resolveExit: (exit: SandboxExit) => void;
+        let rejectCrash: (error: SandboxCrashError) => void;
+        this.exitPromise = new Promise(resolve => resolveExit = resolve);
+        this.crashPromise = new Promise((_, reject) => rejectCrash = reject);
+        // a crash is only an error for pending waits, not an unhandled rejection
+        this.crashPromise.catch(() => undefined);
+
+        let exited = false;
+        const onExit = (code: number | null, signal: NodeJS.Signals | null, cause?: Error) => {
+            if (exited) return;
+            exited = true;
+            resolveExit({ code, signal });
+            this.emit("exit", code, signal);
+            if (!this.expectedExit) {
+                const stderr = this.logBuffer.lines()
+                    .filter(line => line.stream === "stderr")
+                    .slice(-CRASH_STDERR_LINES)
+                    .map(line => line.raw);
+                const error = new SandboxCrashError(code, signal, stderr, cause);
+                rejectCrash(error);
+                this.emit("crash", error);
+            }
+        };
+        return onExit;
+    }
+
+    // Rejects with the crash error if the node exits before `promise` settles
+    private untilCrash<T>(promise: Promise<T>): Promise<T> {
+        return Promise.race([promise, this.crashPromise]);
+    }
+
+    private async waitUntilReady(signal?: AbortSignal): Promise<void> {
+        const readyWhen = this.readyWhen;
+        const isReady = readyWhen === "status"
+            ? () => true
+            : readyWhen === "firstBlock"
+                ? (status: StatusResponse) => status.sync_info.latest_block_height > (status.sync_info.earliest_block_height ?? 0)
+                : (status: StatusResponse) => readyWhen(status, this.rpc);
+        await this.pollStatus(isReady, "Sandbox failed to become ready within the timeout period.", signal);
+        this.emit("ready");
+    }
+
+    // Polls `/status` until `isDone` accepts it, giving up when the node crashes, `signal` aborts or `timeoutMs` passes
+    private async pollStatus(
+        isDone: (status: StatusResponse) => boolean | Promise<boolean>,
+        timeoutMessage: string,
+        signal?: AbortSignal
+    ): Promise<StatusResponse> {
+        const stop = new AbortController();
+        const onAbort = () => stop.abort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+        this.crashPromise.catch(onAbort);
+        try {
+            return await this.untilCrash(Sandbox.waitForStatus(this.localRpcUrl, isDone, timeoutMessage, this.timeoutMs, stop.signal));
+        } finally {
+            signal?.removeEventListener("abort", onAbort);
+            stop.abort();
+        }
+    }
+
+    // Polls `/status` until `isDone` accepts the response, or throws once `timeoutMs` has passed or `signal` is aborted
+    private static async waitForStatus(
+        rpcUrl: string,
+        isDone: (status: StatusResponse) => boolean | Promise<boolean>,
+        timeoutMessage: string,
+        timeoutMs: number,
+        signal: AbortSignal
+    ): Promise<StatusResponse> {
+        const deadline = Date.now() + timeoutMs;
         let lastError: unknown = null;
-        for (let i = 0; i < attempts; i++) {
+        while (Date.now() < deadline) {
+            throwIfAborted(signal);
             try {
-                const response = await got(`${rpcUrl}/status`, { throwHttpErrors: false });
+                const response = await got(`${rpcUrl}/status`, {
+                    throwHttpErrors: false,
+                    responseType: "json",
+                    timeout: Math.max(1, deadline - Date.now()),
+                    retry: 0,
+                });
                 if (response.statusCode >= 200 && response.statusCode < 300) {
-                    return;
+                    const status = response.body as StatusResponse;
+                    if (await isDone(status)) {
+                        return status;
+                    }
                 }
             } catch (error) {
                 lastError = error;
             }
-            await new Promise(resolve => setTimeout(resolve, 500));
+            await sleep(Math.min(STATUS_POLL_INTERVAL_MS, Math.max(0, deadline - Date.now())), signal);
         }
-        throw new TypedError("Sandbox failed to become ready within the timeout period.",
+        throwIfAborted(signal);
+        throw new TypedError(timeoutMessage,
             SandboxErrors.RunFailed,
             lastError instanceof Error ? lastError : new Error(String(lastError))
         );
     }
 }
+
+// Removes a home directory created by a failed start, or the files marking an existing one as initialized
+async function uninitializeHomeDir(homeDir: string, existed: boolean): Promise<void> {
+    if (!existed) {
+        await rm(homeDir, { recursive: true, force: true });
+        return;
+    }
+    await Promise.all(["config.json", "genesis.json"].map(file => rm(join(homeDir, file), { force: true })));
+}
+
+// Spawns a node, a detached one appends its output to `outputFile` instead of piping it into the current process
+async function spawnNode(version: string, args: string[], outputFile?: string): Promise<ChildProcess> {
+    if (!outputFile) {
+        return spawnWithArgsAndVersion(version, args, SANDBOX_STDIO);
+    }
+    const output = openSync(outputFile, "a");
+    try {
+        return await spawnWithArgsAndVersion(version, args, ["ignore", output, output], true);
+    } finally {
+        closeSync(output);
+    }
+}
+
+function defaultTimeoutMs(): number {
+    return parseInt(process.env["NEAR_RPC_TIMEOUT_SECS"] || '10') * 1000;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new TypedError("Sandbox start was aborted",
+            SandboxErrors.Aborted,
+            signal.reason instanceof Error ? signal.reason : undefined);
+    }
+}
+
+// resolves after `ms`, or early once `signal` is aborted
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, ms);
+        signal.addEventListener("abort", done, { once: true });
+        function done() {
+            clearTimeout(timer);
+            signal.removeEventListener("abort", done);
+            resolve();
+        }
+    });
+}
@@ -0,0 +1,222 @@
+import { copyFile, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { initConfigsWithVersion } from "../binary/binaryExecution";
+import { resolveVersion } from "../binary/version";
+import { SandboxErrors, TypedError } from "../errors";
+import { DEFAULT_BALANCE, overrideConfigs, overwriteSandboxConfigJson, SandboxConfig, setSandboxConfig } from "./config";
+import { generateKeyFile, NodeKeyFile } from "./keys";
+import { ACCOUNT_STORAGE_USAGE, accessKeyStorageUsage, toNearcoreRecords } from "./records";
+import { Sandbox, StartParams, throwIfAborted } from "./Sandbox";
+import { connectableHost, createTmpDir, DEFAULT_RPC_HOST, rpcSocket } from "./sandboxUtils";
+
+/**
+ * Options accepted by `SandboxNetwork.start()`.
+ * @property validators - Number of validator nodes, each with its own validator key and stake in genesis. Defaults to 2.
+ * @property observers - Number of non-validating nodes that only follow the chain. Defaults to 0.
+ * @property config - Sandbox configuration shared by all nodes. Genesis overrides are applied once and the resulting
+ * genesis is used by every node. Fixed ports and node or validator keys can't be set, they are generated per node.
+ */
+export interface SandboxNetworkParams extends Omit<StartParams, "homeDir" | "config"> {
+    validators?: number;
+    observers?: number;
+    config?: Omit<SandboxConfig, "rpcPort" | "netPort" | "nodeKey" | "validatorKey">;
+}
+
+// Validators in genesis are named like the node directories: node0, node1, ...
+const NODE_PREFIX = "node";
+
+/**
+ * `SandboxNetwork` runs several sandbox nodes that share one genesis and connect to each other,
+ * to test validator rotation, multiple shards or the behavior when a node goes down.
+ *
+ * Every node is a regular `Sandbox` with its own RPC endpoint. The first node is the boot node of the others.
+ *
+ * @example
+ * ```ts
+ * const network = await SandboxNetwork.start({ validators: 3, observers: 1 });
+ *
+ * console.log(network.nodes.map(node => node.rpcUrl));
+ * await network.validators[2]!.stop(); // take a validator down
+ *
+ * await network.tearDown();
+ * ```
+ *
+ * @property nodes - All nodes, validators first.
+ * @property rootDir - Temporary directory holding the home directory of every node.
+ * @property validatorAccountIds - Accounts of the validators in genesis, in the order of `validators`.
+ */
+export class SandboxNetwork {
+    public readonly nodes: Sandbox[];
+    public readonly rootDir: string;
+    public readonly validatorAccountIds: string[];
+
+    private constructor(nodes: Sandbox[], rootDir: string, validatorAccountIds: string[]) {
+        this.nodes = nodes;
+        this.rootDir = rootDir;
+        this.validatorAccountIds = validatorAccountIds;
+    }
+
+    /**
+     * The validating nodes.
+     */
+    get validators(): Sandbox[] {
+        return this.nodes.slice(0, this.validatorAccountIds.length);
+    }
+
+    /**
+     * The non-validating nodes.
+     */
+    get observers(): Sandbox[] {
+        return this.nodes.slice(this.validatorAccountIds.length);
+    }
+
+    /**
+     * RPC endpoint of the first node.
+     */
+    get rpcUrl(): string {
+        return this.nodes[0]!.rpcUrl;
+    }
+
+    /**
+     * Prepares the home directory of every node and starts them, the boot node first.
+     *
+     * @throws {TypedError} `SandboxErrors.InvalidConfig` if the node counts are invalid or fixed ports or keys are configured.
+     * `SandboxErrors.Aborted` if `signal` is aborted, also while the binary of a node is downloaded or initialized.
+     * Any other error of `Sandbox.start()` if a node fails to start, after all started nodes are torn down.
+     */
+    static async start(params: SandboxNetworkParams = {}): Promise<SandboxNetwork> {
+        const validators = params.validators ?? 2;
+        const observers = params.observers ?? 0;
+        if (!Number.isInteger(validators) || !Number.isInteger(observers) || validators < 1 || observers < 0) {
+            throw new TypedError(`Invalid network size: ${validators} validators, ${observers} observers`, SandboxErrors.InvalidConfig);
+        }
+        const config = params.config as SandboxConfig | undefined;
+        if (config?.rpcPort || config?.netPort || config?.nodeKey || config?.validatorKey) {
+            throw new TypedError("Ports and node or validator keys are generated for every node of a network", SandboxErrors.InvalidConfig);
+        }
+
+        const version = await resolveVersion(params.version);
+        const rootDir = (await createTmpDir()).path;
+        const nodes: Sandbox[] = [];
+        try {
+            const validatorKeys = Array.from({ length: validators }, (_, i) => generateKeyFile(`${NODE_PREFIX}${i}`));
+            const nodeKeys = Array.from({ length: validators + observers }, () => generateKeyFile());
+            const homeDirs = nodeKeys.map((_, i) => join(rootDir, `${NODE_PREFIX}${i}`));
+
+            // the first node gets the full config, the others only its config.json overrides and then a copy of its genesis
+            for (const [i, homeDir] of homeDirs.entries()) {
+                await mkdir(homeDir, { recursive: true });
+                await initConfigsWithVersion(version, homeDir, params.download, params.signal);
+                if (i === 0) {
+                    await overrideConfigs(homeDir, config);
+                } else {
+                    await setSandboxConfig(homeDir, config);
+                }
+                await writeKeyFile(homeDir, "node_key.json", nodeKeys[i]!);
+                const validatorKey = validatorKeys[i];
+                if (validatorKey) {
+                    await writeKeyFile(homeDir, "validator_key.json", validatorKey);
+                } else {
+                    await rm(join(homeDir, "validator_key.json"), { force: true });
+                }
+                if (validators + observers > 1) {
+                    // wait for peers instead of producing blocks alone
+                    await overwriteSandboxConfigJson(homeDir, { network: { skip_sync_wait: false } });
+                }
+            }
+
+            const genesisPath = join(homeDirs[0]!, "genesis.json");
+            const genesis = JSON.parse(await readFile(genesisPath, "utf-8"));
+            await writeFile(genesisPath, JSON.stringify(await withNetworkValidators(genesis, validatorKeys)), "utf-8");
+            for (const homeDir of homeDirs.slice(1)) {
+                await copyFile(genesisPath, join(homeDir, "genesis.json"));
+            }
+
+            // the home directories are initialized already, only the addresses and ports are left to pick
+            const startParams: StartParams = {
+                ...params,
+                config: config && { host: config.host, advertisedHost: config.advertisedHost, portRange: config.portRange },
+            };
+            const bootNode = await Sandbox.start({ ...startParams, homeDir: homeDirs[0] });
+            nodes.push(bootNode);
+            const bootHost = connectableHost(config?.host ?? DEFAULT_RPC_HOST);
+            const bootNodes = `${nodeKeys[0]!.public_key}@${rpcSocket(bootNode.netPort, bootHost)}`;
+            for (const homeDir of homeDirs.slice(1)) {
+                await overwriteSandboxConfigJson(homeDir, { network: { boot_nodes: bootNodes } });
+                nodes.push(await Sandbox.start({ ...startParams, homeDir }));
+            }
+            return new SandboxNetwork(nodes, rootDir, validatorKeys.map(key => key.account_id));
+        } catch (error) {
+            await Promise.allSettled(nodes.map(node => node.tearDown()));
+            await rm(rootDir, { recursive: true, force: true }).catch(() => undefined);
+            throwIfAborted(params.signal);
+            throw error;
+        }
+    }
+
+    /**
+     * Tears down every node and removes the home directories.
+     */
+    async tearDown(): Promise<void> {
+        const results = await Promise.allSettled(this.nodes.map(node => node.tearDown()));
+        await rm(this.rootDir, { recursive: true, force: true });
+        const failed = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+        if (failed) {
+            throw new TypedError("Sandbox network teardown encountered errors",
+                SandboxErrors.TearDownFailed,
+                failed.reason instanceof Error ? failed.reason : new Error(String(failed.reason)));
+        }
+    }
+}
+
+async function writeKeyFile(homeDir: string, fileName: string, key: NodeKeyFile): Promise<void> {
+    await writeFile(join(homeDir, fileName), JSON.stringify(key, null, 2), "utf-8");
+}
+
+/**
+ * Replaces the validators of a genesis with one staked account per validator key.
+ * The stake of the previous validators is unlocked, so the total supply only grows by the new accounts,
+ * and the block producer seats are raised to fit every validator.
+ */
+export async function withNetworkValidators(
+    genesis: Record<string, any>,
+    validatorKeys: NodeKeyFile[]
+): Promise<Record<string, any>> {
+    const previous: { account_id: string; amount: string }[] = genesis["validators"] ?? [];
+    const stake = previous[0]?.amount ?? DEFAULT_BALANCE.toString();
+    const previousIds = new Set(previous.map(validator => validator.account_id));
+
+    for (const record of genesis["records"]) {
+        const account = record.Account;
+        if (account && previousIds.has(account.account_id)) {
+            account.account.amount = (BigInt(account.account.amount) + BigInt(account.account.locked)).toString();
+            account.account.locked = "0";
+        }
+    }
+
+    let totalSupply = BigInt(genesis["total_supply"]);
+    for (const key of validatorKeys) {
+        genesis["records"].push(...await toNearcoreRecords([
+            {
+                Account: {
+                    accountId: key.account_id,
+                    balance: DEFAULT_BALANCE,
+                    locked: BigInt(stake),
+                    storageUsage: ACCOUNT_STORAGE_USAGE + accessKeyStorageUsage(key.public_key, "FullAccess"),
+                },
+            },
+            { AccessKey: { accountId: key.account_id, publicKey: key.public_key } },
+        ]));
+        totalSupply += DEFAULT_BALANCE + BigInt(stake);
+    }
+    genesis["total_supply"] = totalSupply.toString();
+    genesis["validators"] = validatorKeys.map(key => ({ account_id: key.account_id, public_key: key.public_key, amount: stake }));
+
+    const seats = validatorKeys.length;
+    genesis["num_block_producer_seats"] = Math.max(genesis["num_block_producer_seats"] ?? 0, seats);
+    if (Array.isArray(genesis["num_block_producer_seats_per_shard"])) {
+        genesis["num_block_producer_seats_per_shard"] = genesis["num_block_producer_seats_per_shard"]
+            .map((shardSeats: number) => Math.max(shardSeats, seats));
+    }
+    return genesis;
+}
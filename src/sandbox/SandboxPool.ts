@@ -0,0 +1,247 @@
+import { EventEmitter } from "events";
+import { Sandbox, SandboxSnapshot, StartParams } from "./Sandbox";
+import { SandboxErrors, TypedError } from "../errors";
+
+/**
+ * Options accepted by `SandboxPool.create()`.
+ * @property config - Sandbox configuration shared by all sandboxes in the pool. Fixed ports are only allowed when `max` is 1.
+ * @property version - NEAR sandbox binary version shared by all sandboxes in the pool.
+ * @property logs, timeoutMs, readyWhen, download, signal - Passed to `Sandbox.start()` of every sandbox in the pool.
+ * @property min - Number of sandboxes started ahead of time and kept idle. Defaults to 1.
+ * @property max - Maximum number of sandboxes the pool runs at once. `acquire()` waits once it is reached. Defaults to `min`.
+ * @property reset - How a released sandbox is cleaned before it is handed out again:
+ *   - `"restore"` (default) - roll back to a snapshot taken right after startup, replacing the sandbox if that fails.
+ *   - `"replace"` - tear the sandbox down and start a new one.
+ */
+export interface SandboxPoolOptions extends Omit<StartParams, "homeDir" | "detached" | "handleFile"> {
+    min?: number;
+    max?: number;
+    reset?: "restore" | "replace";
+}
+
+interface PooledSandbox {
+    sandbox: Sandbox;
+    clean?: SandboxSnapshot;
+}
+
+/**
+ * `SandboxPool` keeps a set of pre-started sandboxes so tests get a fresh chain without waiting for a cold start.
+ *
+ * @example
+ * ```ts
+ * const pool = await SandboxPool.create({ min: 2, max: 4 });
+ *
+ * const sandbox = await pool.acquire();
+ * try {
+ *   // Use the sandbox...
+ * } finally {
+ *   await pool.release(sandbox); // Resets the chain state for the next test
+ * }
+ *
+ * await pool.close();
+ * ```
+ *
+ * Emits `"error"` when a sandbox started in the background to keep `min` idle fails and no `acquire()` is waiting for it.
+ * Without a listener the failure is dropped and the next `acquire()` starts the missing sandboxes again.
+ */
+export class SandboxPool extends EventEmitter {
+    private readonly options: SandboxPoolOptions;
+    private readonly min: number;
+    private readonly max: number;
+    private readonly idle: PooledSandbox[] = [];
+    private readonly busy = new Map<Sandbox, PooledSandbox>();
+    private readonly waiters: { resolve: (entry: PooledSandbox) => void; reject: (error: Error) => void }[] = [];
+    private starting = 0;
+    private closed = false;
+
+    private constructor(options: SandboxPoolOptions, min: number, max: number) {
+        super();
+        this.options = options;
+        this.min = min;
+        this.max = max;
+    }
+
+    /**
+     * Creates a pool and waits until `min` sandboxes are started.
+     *
+     * @throws {TypedError} `SandboxErrors.InvalidConfig` if the sizes are invalid or fixed ports are used with more than one sandbox.
+     */
+    static async create(options: SandboxPoolOptions = {}): Promise<SandboxPool> {
+        const min = options.min ?? 1;
+        const max = options.max ?? Math.max(min, 1);
+        if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max < 1 || min > max) {
+            throw new TypedError(`Invalid pool size: min ${min}, max ${max}`, SandboxErrors.InvalidConfig);
+        }
+        if (max > 1 && (options.config?.rpcPort || options.config?.netPort)) {
+            throw new TypedError("Fixed rpcPort or netPort can't be shared by more than one pooled sandbox", SandboxErrors.InvalidConfig);
+        }
+
+        const pool = new SandboxPool(options, min, max);
+        try {
+            const entries = await Promise.all(Array.from({ length: min }, () => pool.startEntry()));
+            pool.idle.push(...entries);
+        } catch (error) {
+            await pool.close();
+            throw error;
+        }
+        return pool;
+    }
+
+    /**
+     * Number of sandboxes currently owned by the pool, idle, in use or starting.
+     */
+    get size(): number {
+        return this.idle.length + this.busy.size + this.starting;
+    }
+
+    /**
+     * Takes a sandbox from the pool. Starts a new one if none is idle and the pool is below `max`,
+     * otherwise waits until another sandbox is released.
+     */
+    async acquire(): Promise<Sandbox> {
+        this.assertOpen();
+
+        let entry = this.idle.shift();
+        if (!entry) {
+            entry = this.size < this.max
+                ? await this.startEntry()
+                : await new Promise<PooledSandbox>((resolve, reject) => this.waiters.push({ resolve, reject }));
+        }
+        // the pool was closed while the sandbox was starting
+        if (this.closed) {
+            await entry.sandbox.tearDown().catch(() => undefined);
+            this.assertOpen();
+        }
+        this.busy.set(entry.sandbox, entry);
+        this.replenish();
+        return entry.sandbox;
+    }
+
+    /**
+     * Returns a sandbox to the pool. Its chain state is reset according to the `reset` option
+     * before it is handed out again.
+     *
+     * @throws {TypedError} `SandboxErrors.InvalidArgument` if the sandbox was not acquired from this pool.
+     */
+    async release(sandbox: Sandbox): Promise<void> {
+        const entry = this.busy.get(sandbox);
+        if (!entry) {
+            throw new TypedError("Sandbox was not acquired from this pool", SandboxErrors.InvalidArgument);
+        }
+        this.busy.delete(sandbox);
+        if (this.closed) {
+            await sandbox.tearDown();
+            return;
+        }
+
+        this.starting += 1;
+        let clean: PooledSandbox;
+        try {
+            clean = await this.reset(entry);
+        } catch (error) {
+            this.rejectWaiters(error instanceof Error ? error : new Error(String(error)));
+            throw error;
+        } finally {
+            this.starting -= 1;
+        }
+        this.handOut(clean);
+    }
+
+    /**
+     * Tears down every sandbox owned by the pool, including those that are still acquired.
+     * Pending `acquire()` calls are rejected.
+     */
+    async close(): Promise<void> {
+        this.closed = true;
+        this.rejectWaiters(new TypedError("Sandbox pool is closed", SandboxErrors.RunFailed));
+
+        const entries = [...this.idle, ...this.busy.values()];
+        this.idle.length = 0;
+        this.busy.clear();
+        await Promise.allSettled(entries.map(entry => entry.sandbox.tearDown()));
+    }
+
+    private async startEntry(): Promise<PooledSandbox> {
+        this.starting += 1;
+        try {
+            return await this.launch();
+        } finally {
+            this.starting -= 1;
+        }
+    }
+
+    // starts a sandbox without counting it, callers account for it in `starting`
+    private async launch(): Promise<PooledSandbox> {
+        const { config, version, logs, timeoutMs, readyWhen, download, signal } = this.options;
+        const sandbox = await Sandbox.start({ config, version, logs, timeoutMs, readyWhen, download, signal });
+        if (this.options.reset === "replace") {
+            return { sandbox };
+        }
+        try {
+            return { sandbox, clean: await sandbox.snapshot() };
+        } catch (error) {
+            await sandbox.tearDown().catch(() => undefined);
+            throw error;
+        }
+    }
+
+    // `release()` keeps the sandbox counted in `starting` while it is reset
+    private async reset(entry: PooledSandbox): Promise<PooledSandbox> {
+        if (entry.clean) {
+            try {
+                await entry.sandbox.restore(entry.clean);
+                return entry;
+            } catch {
+                // the sandbox is broken beyond restoring, fall through and replace it
+            }
+        }
+        await entry.sandbox.tearDown().catch(() => undefined);
+        return this.launch();
+    }
+
+    // keeps `min` sandboxes idle or starting in the background while the pool is below `max`
+    private replenish(): void {
+        while (!this.closed && this.idle.length + this.starting < this.min && this.size < this.max) {
+            this.startEntry()
+                .then(entry => this.handOut(entry))
+                .catch(error => this.failReplenish(error instanceof Error ? error : new Error(String(error))));
+        }
+    }
+
+    private handOut(entry: PooledSandbox): void {
+        if (this.closed) {
+            void entry.sandbox.tearDown().catch(() => undefined);
+            return;
+        }
+        const waiter = this.waiters.shift();
+        if (waiter) {
+            waiter.resolve(entry);
+        } else {
+            this.idle.push(entry);
+        }
+    }
+
+    // a waiter gets the error, otherwise it is emitted so the pool doesn't stay below `min` unnoticed
+    private failReplenish(error: Error): void {
+        if (this.closed) {
+            return;
+        }
+        if (this.waiters.length > 0) {
+            this.rejectWaiters(error);
+        } else if (this.listenerCount("error") > 0) {
+            this.emit("error", error);
+        }
+    }
+
+    private rejectWaiters(error: Error): void {
+        for (const waiter of this.waiters.splice(0)) {
+            waiter.reject(error);
+        }
+    }
+
+    private assertOpen(): void {
+        if (this.closed) {
+            throw new TypedError("Sandbox pool is closed", SandboxErrors.RunFailed);
+        }
+    }
+}
@@ -3,6 +3,19 @@ import { join } from "path";
 import { apply } from "json-merge-patch"
 import * as fs from "fs/promises";
 import { SandboxErrors, TypedError } from "../errors";
+import { fetchImportedRecords, ImportConfig } from "./importState";
+import { keyPairIssues } from "./keys";
+import {
+  ACCOUNT_STORAGE_USAGE,
+  AccountRecord,
+  StateRecord,
+  accessKeyStorageUsage,
+  codeHash,
+  dataStorageUsage,
+  readCode,
+  toBytes,
+  toNearcoreRecords
+} from "./records";
 
 /*
   * Network specific configurations used to modify behavior inside a chain.
@@ -17,6 +30,7 @@ export const DEFAULT_ACCOUNT_ID = 'sandbox';
 export const DEFAULT_PUBLIC_KEY = 'ed25519:5BGSaf6YjVm7565VzWQHNxoyEjwr3jUpRJSGjREvU9dB';
 export const DEFAULT_PRIVATE_KEY = 'ed25519:3tgdk2wPraJzT4nsTuf86UX41xgPNk3MHnq8epARMdBNs29AFEztAuaQ7iHddDfXG9F2RzV1XNQYgJyAyoW51UBB';
 export const DEFAULT_BALANCE = NEAR.toUnits(10000);
+export const DEFAULT_CONTRACT_BALANCE = NEAR.toUnits(100);
 
 /*
   * Represents a genesis account in the NEAR sandbox.
@@ -56,27 +70,216 @@ export class GenesisAccount {
   }
 }
 
+/*
+  * Represents a contract deployed at genesis, so it exists at block 0 without any deploy transaction.
+  * accountId - The account the contract is deployed to. If it is not a genesis account already, it is created without access keys.
+  * code - The wasm bytes, or a path to a wasm file.
+  * storage - Initial contract storage. Keys and values can be raw bytes or utf-8 strings.
+  * balance - Balance in yoctoNEAR of the created account. Defaults to 100 NEAR. Can't be set for accounts from `additionalAccounts`.
+  */
+export interface GenesisContract {
+  accountId: string;
+  code: Uint8Array | string;
+  storage?: Record<string, Uint8Array | string> | Map<Uint8Array | string, Uint8Array | string>;
+  balance?: bigint;
+}
+
 /**
  * Configuration options for the NEAR sandbox environment.
  * This interface allows customization of the sandbox's behavior.
  * @property rpcPort - Port that RPC will be bound to. Will be picked randomly if not set.
  * @property netPort - Port that the network will be bound to. Will be picked randomly if not set.
+ * @property host - Address the RPC and network ports are bound to, e.g. `0.0.0.0` or `::` to accept outside connections. Defaults to `127.0.0.1`.
+ * @property advertisedHost - Host used in `rpcUrl`, e.g. the container name when the sandbox runs in a container.
+ * Defaults to `host`, or the loopback address if `host` accepts connections on all addresses.
+ * @property portRange - Inclusive `[min, max]` range of the ports picked when `rpcPort` or `netPort` is not set.
  * @property additionalConfig - Additional JSON configuration to merge with the default config. Ensure that the additional properties are correct.
  * @property additionalGenesis - Additional genesis parameters to modify the genesis.json.
  * @property additionalAccounts - Additional accounts to be passed in the sandbox genesis. By default, it will create a default account with 10,000 NEAR.
+ * @property additionalContracts - Contracts to deploy at genesis, with optional initial storage. The code hash, storage usage and total supply are updated accordingly.
+ * @property additionalRecords - Raw state records (accounts, access keys, contract code and storage) to add to genesis.
+ * They are validated for shape and duplicates, and the storage usage and total supply are kept consistent.
+ * @property importFrom - Accounts to copy, with their code, access keys and contract storage, from a live network into genesis.
  * @property nodeKey - Node key to be used by the sandbox node. If not provided, a default key will be used. Should match up with node key in genesis.json.
- * @property validatorKey - Validator key to be used by the validator. Should match up with validator key in genesis.json.
+ * @property validatorKey - Validator key to be used by the validator. Must be one of the validators in genesis.json,
+ * so it is usually set together with `additionalGenesis.validators`.
  */
 export interface SandboxConfig {
   rpcPort?: number;
   netPort?: number;
+  host?: string;
+  advertisedHost?: string;
+  portRange?: [number, number];
   additionalConfig?: Record<string, any>;
   additionalGenesis?: Record<string, any>;
   additionalAccounts?: GenesisAccount[];
+  additionalContracts?: GenesisContract[];
+  additionalRecords?: StateRecord[];
+  importFrom?: ImportConfig;
   nodeKey?: Record<string, any>;
   validatorKey?: Record<string, any>;
 }
 
+// Account ID rules of nearcore: 2 to 64 lowercase parts separated by dots, with single "-" or "_" between alphanumerics
+const ACCOUNT_ID_PATTERN = /^(([a-z\d]+[-_])*[a-z\d]+\.)*([a-z\d]+[-_])*[a-z\d]+$/;
+
+/**
+ * Checks the accounts, contracts and keys of a config before anything is started, so mistakes are reported
+ * with the offending field instead of as a node that fails to start. Called by `Sandbox.start()`.
+ *
+ * Checks that account IDs are valid, `ed25519:` keys are well-formed and private keys belong to their public keys,
+ * balances are positive, accounts and contracts are unique and don't redefine the built-in `sandbox` account,
+ * that `validatorKey` is one of the validators of `additionalGenesis` if they are set, and that `additionalRecords`
+ * and `importFrom` are well-formed. Records are checked against genesis only when it is written.
+ *
+ * @throws {TypedError} `SandboxErrors.InvalidConfig` listing every problem with its field path, e.g. `additionalAccounts[1].balance`.
+ */
+export function validateSandboxConfig(config: SandboxConfig): void {
+  const issues: string[] = [];
+  const accountIds = new Map<string, string>();
+
+  (config.additionalAccounts ?? []).forEach((account, i) => {
+    const path = `additionalAccounts[${i}]`;
+    const idIssue = accountIdIssue(account?.accountId);
+    if (idIssue) {
+      issues.push(`${path}.accountId: ${idIssue}`);
+    } else if (account.accountId === DEFAULT_ACCOUNT_ID) {
+      issues.push(`${path}.accountId: ${DEFAULT_ACCOUNT_ID} is the built-in account, use another account ID`);
+    } else if (accountIds.has(account.accountId)) {
+      issues.push(`${path}.accountId: ${account.accountId} is already defined by ${accountIds.get(account.accountId)}`);
+    } else {
+      accountIds.set(account.accountId, path);
+    }
+    issues.push(...keyPairIssues(account?.publicKey, account?.privateKey, `${path}.publicKey`, `${path}.privateKey`));
+    if (typeof account?.balance !== "bigint" || account.balance <= BigInt(0)) {
+      issues.push(`${path}.balance: expected a positive amount of yoctoNEAR, got ${account?.balance}`);
+    }
+  });
+
+  const contracts = new Map<string, string>();
+  (config.additionalContracts ?? []).forEach((contract, i) => {
+    const path = `additionalContracts[${i}]`;
+    const idIssue = accountIdIssue(contract?.accountId);
+    if (idIssue) {
+      issues.push(`${path}.accountId: ${idIssue}`);
+    } else if (contracts.has(contract.accountId)) {
+      issues.push(`${path}.accountId: a contract for ${contract.accountId} is already defined by ${contracts.get(contract.accountId)}`);
+    } else {
+      contracts.set(contract.accountId, path);
+    }
+    if (contract?.balance === undefined) {
+      return;
+    }
+    if (typeof contract.balance !== "bigint" || contract.balance <= BigInt(0)) {
+      issues.push(`${path}.balance: expected a positive amount of yoctoNEAR, got ${contract.balance}`);
+    } else if (contract.accountId === DEFAULT_ACCOUNT_ID || accountIds.has(contract.accountId)) {
+      issues.push(`${path}.balance: can't be set for ${contract.accountId}, it is already a genesis account`);
+    }
+  });
+
+  if (config.nodeKey) {
+    issues.push(...keyPairIssues(config.nodeKey["public_key"], nodeKeySecret(config.nodeKey), "nodeKey.public_key", "nodeKey.secret_key"));
+  }
+  if (config.validatorKey) {
+    issues.push(...validatorKeyIssues(config.validatorKey, config.additionalGenesis?.["validators"]));
+  }
+
+  if (config.additionalRecords !== undefined) {
+    if (!Array.isArray(config.additionalRecords)) {
+      issues.push("additionalRecords: expected an array of records");
+    } else {
+      config.additionalRecords.forEach((record, i) => issues.push(...recordIssues(record, `additionalRecords[${i}]`)));
+    }
+  }
+  if (config.importFrom) {
+    issues.push(...importConfigIssues(config.importFrom));
+  }
+
+  if (issues.length > 0) {
+    throw new TypedError(`Invalid sandbox config:\n${issues.join("\n")}`, SandboxErrors.InvalidConfig);
+  }
+}
+
+function accountIdIssue(accountId: unknown): string | undefined {
+  if (typeof accountId !== "string") {
+    return "expected a string";
+  }
+  if (accountId.length < 2 || accountId.length > 64 || !ACCOUNT_ID_PATTERN.test(accountId)) {
+    return `${accountId} is not a valid account ID`;
+  }
+  return undefined;
+}
+
+// A custom validator key only works together with the genesis validators it belongs to, like those of `Sandbox.dump()`,
+// so it must be one of them if they are set as well. Without them it is checked against genesis.json once it is written
+function validatorKeyIssues(validatorKey: Record<string, any>, validators: unknown): string[] {
+  const issues = keyPairIssues(validatorKey["public_key"], nodeKeySecret(validatorKey), "validatorKey.public_key", "validatorKey.secret_key");
+  const idIssue = accountIdIssue(validatorKey["account_id"]);
+  if (idIssue) {
+    issues.push(`validatorKey.account_id: ${idIssue}`);
+  }
+  if (Array.isArray(validators) && !validators.some(validator =>
+    validator?.account_id === validatorKey["account_id"] && validator?.public_key === validatorKey["public_key"])) {
+    issues.push(`validatorKey: ${validatorKey["account_id"]} with ${validatorKey["public_key"]} is not one of additionalGenesis.validators`);
+  }
+  return issues;
+}
+
+// The shape of a record and the account ID it refers to
+function recordIssues(record: StateRecord, path: string): string[] {
+  const issues = validateRecordShape(record, path);
+  if (issues.length > 0) {
+    return issues;
+  }
+  const [kind, fields] = Object.entries(record)[0]!;
+  const idIssue = accountIdIssue(fields.accountId);
+  return idIssue ? [`${path}.${kind}.accountId: ${idIssue}`] : [];
+}
+
+function importConfigIssues(importFrom: ImportConfig): string[] {
+  const issues: string[] = [];
+  if (typeof importFrom.rpcUrl !== "string" || !/^https?:\/\/[^/]/i.test(importFrom.rpcUrl)) {
+    issues.push(`importFrom.rpcUrl: expected an http(s) URL, got ${importFrom.rpcUrl}`);
+  }
+  if (!Array.isArray(importFrom.accounts) || importFrom.accounts.length === 0) {
+    issues.push("importFrom.accounts: expected a non-empty array of account IDs");
+  } else {
+    importFrom.accounts.forEach((entry, i) => {
+      const path = `importFrom.accounts[${i}]`;
+      const accountId = typeof entry === "string" ? entry : entry?.accountId;
+      const idIssue = accountIdIssue(accountId);
+      if (idIssue) {
+        issues.push(`${typeof entry === "string" ? path : `${path}.accountId`}: ${idIssue}`);
+      }
+      if (typeof entry !== "string" && entry?.prefixes !== undefined) {
+        issues.push(...prefixesIssues(entry.prefixes, `${path}.prefixes`));
+      }
+    });
+  }
+  if (importFrom.blockHeight !== undefined && (!Number.isInteger(importFrom.blockHeight) || importFrom.blockHeight < 0)) {
+    issues.push(`importFrom.blockHeight: expected a non-negative integer, got ${importFrom.blockHeight}`);
+  }
+  if (importFrom.prefixes !== undefined) {
+    issues.push(...prefixesIssues(importFrom.prefixes, "importFrom.prefixes"));
+  }
+  if (importFrom.maxStateBytes !== undefined && (!Number.isInteger(importFrom.maxStateBytes) || importFrom.maxStateBytes < 0)) {
+    issues.push(`importFrom.maxStateBytes: expected a non-negative integer, got ${importFrom.maxStateBytes}`);
+  }
+  return issues;
+}
+
+function prefixesIssues(prefixes: unknown, path: string): string[] {
+  if (!Array.isArray(prefixes) || !prefixes.every(prefix => typeof prefix === "string" || prefix instanceof Uint8Array)) {
+    return [`${path}: expected an array of strings or bytes`];
+  }
+  return [];
+}
+
+// nearcore key files name the secret key `secret_key`, older ones `private_key`
+function nodeKeySecret(keyFile: Record<string, any>): unknown {
+  return keyFile["secret_key"] ?? keyFile["private_key"];
+}
+
 export async function overrideConfigs(homeDir: string, config?: SandboxConfig): Promise<void> {
   await setSandboxGenesis(homeDir, config);
 
@@ -85,9 +288,26 @@ export async function overrideConfigs(homeDir: string, config?: SandboxConfig):
     await fs.writeFile(join(homeDir, "node_key.json"), JSON.stringify(config.nodeKey, null, 2), 'utf-8');
   }
   if (config?.validatorKey) {
+    await checkValidatorKeyInGenesis(homeDir, config.validatorKey);
     await fs.writeFile(join(homeDir, 'validator_key.json'), JSON.stringify(config.validatorKey, null, 2), 'utf-8');
   }
 }
+
+// Without `additionalGenesis.validators` the genesis keeps the validator written by `init`, which a custom
+// validator key doesn't match, so the node would never produce blocks
+async function checkValidatorKeyInGenesis(homeDir: string, validatorKey: Record<string, any>): Promise<void> {
+  const genesis = JSON.parse(await fs.readFile(join(homeDir, 'genesis.json'), 'utf-8'));
+  const validators: any[] = Array.isArray(genesis['validators']) ? genesis['validators'] : [];
+  if (!validators.some(validator =>
+    validator?.account_id === validatorKey["account_id"] && validator?.public_key === validatorKey["public_key"])) {
+    throw new TypedError(
+      `Invalid sandbox config:\nvalidatorKey: ${validatorKey["account_id"]} with ${validatorKey["public_key"]} is not a validator in genesis.json, ` +
+      `set it in additionalGenesis.validators as well`,
+      SandboxErrors.InvalidConfig
+    );
+  }
+}
+
 export async function setSandboxGenesis(
   homeDir: string,
   config?: SandboxConfig
@@ -152,39 +372,40 @@ async function overwriteGenesis(
     ...(config?.additionalAccounts ?? [])
   ];
 
-  for (const account of accountsToAdd) {
-    totalSupply += account.balance;
-  }
-  genesisObj['total_supply'] = totalSupply.toString();
-
   if (!Array.isArray(genesisObj['records'])) {
     throw new TypedError("Expected 'records' to be an array in default genesis.json", SandboxErrors.InvalidConfig);
   }
 
+  const records: StateRecord[] = [];
+  const accountRecords = new Map<string, AccountRecord>();
+
   for (const acc of accountsToAdd) {
-    genesisObj['records'].push({
-      Account: {
-        account_id: acc.accountId,
-        account: {
-          amount: acc.balance.toString(),
-          locked: "0",
-          code_hash: "11111111111111111111111111111111",
-          storage_usage: 182
-        }
-      }
-    });
+    if (accountRecords.has(acc.accountId)) {
+      throw new TypedError(`Account ${acc.accountId} is specified more than once in additionalAccounts`, SandboxErrors.InvalidConfig);
+    }
+    const account: AccountRecord = {
+      accountId: acc.accountId,
+      balance: acc.balance,
+      storageUsage: ACCOUNT_STORAGE_USAGE + accessKeyStorageUsage(acc.publicKey, "FullAccess"),
+    };
+    accountRecords.set(acc.accountId, account);
+    records.push({ Account: account });
+    records.push({ AccessKey: { accountId: acc.accountId, publicKey: acc.publicKey } });
+  }
 
-    genesisObj['records'].push({
-      AccessKey: {
-        account_id: acc.accountId,
-        public_key: acc.publicKey,
-        access_key: {
-          nonce: 0,
-          permission: "FullAccess"
-        }
-      }
-    });
+  records.push(...await genesisContractsRecords(config?.additionalContracts ?? [], accountRecords));
+  if (config?.importFrom) {
+    const importedRecords = await fetchImportedRecords(config.importFrom);
+    records.push(...await additionalGenesisRecords(importedRecords, accountRecords, records, genesisObj['records'], "importFrom"));
+  }
+  records.push(...await additionalGenesisRecords(config?.additionalRecords ?? [], accountRecords, records, genesisObj['records'], "additionalRecords"));
+
+  for (const account of accountRecords.values()) {
+    totalSupply += account.balance + (account.locked ?? BigInt(0));
   }
+  genesisObj['total_supply'] = totalSupply.toString();
+
+  genesisObj['records'].push(...await toNearcoreRecords(records));
 
   if (config?.additionalGenesis) {
     apply(genesisObj, config?.additionalGenesis);
@@ -192,6 +413,218 @@ async function overwriteGenesis(
   await fs.writeFile(genesisPath, JSON.stringify(genesisObj), 'utf-8');
 }
 
+// Creates Contract and Data records for genesis contracts, adding the code and storage to the usage of their
+// accounts. Accounts that are not genesis accounts yet are created with the contract's balance.
+async function genesisContractsRecords(
+  contracts: GenesisContract[],
+  accountRecords: Map<string, AccountRecord>
+): Promise<StateRecord[]> {
+  const records: StateRecord[] = [];
+  const deployed = new Set<string>();
+
+  for (const contract of contracts) {
+    if (deployed.has(contract.accountId)) {
+      throw new TypedError(`Contract for ${contract.accountId} is specified more than once`, SandboxErrors.InvalidConfig);
+    }
+    deployed.add(contract.accountId);
+
+    let account = accountRecords.get(contract.accountId);
+    if (!account) {
+      account = {
+        accountId: contract.accountId,
+        balance: contract.balance ?? DEFAULT_CONTRACT_BALANCE,
+        storageUsage: ACCOUNT_STORAGE_USAGE,
+      };
+      accountRecords.set(contract.accountId, account);
+      records.push({ Account: account });
+    } else if (contract.balance !== undefined) {
+      throw new TypedError(`Contract balance can't be set for ${contract.accountId}, it is already a genesis account`,
+        SandboxErrors.InvalidConfig);
+    }
+
+    const code = await readCode(contract.code);
+    account.storageUsage = (account.storageUsage ?? ACCOUNT_STORAGE_USAGE) + code.length;
+    records.push({ Contract: { accountId: contract.accountId, code } });
+
+    const storage = contract.storage instanceof Map ? [...contract.storage] : Object.entries(contract.storage ?? {});
+    for (const [key, value] of storage) {
+      account.storageUsage += dataStorageUsage(key, value);
+      records.push({ Data: { accountId: contract.accountId, key, value } });
+    }
+  }
+  return records;
+}
+
+// Validates `additionalRecords` (or imported records) against each other, the genesis accounts and the records already in genesis.json.
+// Accounts created by the records are added to `accountRecords`, and storage used by keys, code and data is
+// added to the usage of their accounts unless it was set explicitly.
+async function additionalGenesisRecords(
+  additionalRecords: StateRecord[],
+  accountRecords: Map<string, AccountRecord>,
+  configRecords: StateRecord[],
+  genesisRecords: Record<string, any>[],
+  path: string
+): Promise<StateRecord[]> {
+  const issues: string[] = [];
+  const existingAccounts = new Map<string, Record<string, any>>();
+  const accessKeys = new Set<string>();
+  const contracts = new Set<string>();
+  const dataKeys = new Set<string>();
+
+  for (const record of genesisRecords) {
+    if (record['Account']) existingAccounts.set(record['Account'].account_id, record['Account'].account);
+    if (record['AccessKey']) accessKeys.add(`${record['AccessKey'].account_id}/${record['AccessKey'].public_key}`);
+    if (record['Contract']) contracts.add(record['Contract'].account_id);
+    if (record['Data']) dataKeys.add(`${record['Data'].account_id}/${record['Data'].data_key}`);
+  }
+  for (const record of configRecords) {
+    if ("AccessKey" in record) accessKeys.add(`${record.AccessKey.accountId}/${record.AccessKey.publicKey}`);
+    if ("Contract" in record) contracts.add(record.Contract.accountId);
+    if ("Data" in record) dataKeys.add(`${record.Data.accountId}/${Buffer.from(toBytes(record.Data.key)).toString("base64")}`);
+  }
+  for (const account of accountRecords.values()) {
+    if (existingAccounts.has(account.accountId)) {
+      issues.push(`Account ${account.accountId} already exists in genesis.json`);
+    }
+  }
+
+  // Accounts first, so keys, code and data can refer to accounts defined later in the list
+  const explicitStorageUsage = new Set<string>();
+  additionalRecords.forEach((record, i) => {
+    const shapeIssues = validateRecordShape(record, `${path}[${i}]`);
+    issues.push(...shapeIssues);
+    if (shapeIssues.length > 0 || !("Account" in record)) return;
+
+    const { accountId } = record.Account;
+    if (accountRecords.has(accountId) || existingAccounts.has(accountId)) {
+      issues.push(`${path}[${i}]: duplicate account ${accountId}`);
+      return;
+    }
+    if (record.Account.storageUsage !== undefined) {
+      explicitStorageUsage.add(accountId);
+    }
+    accountRecords.set(accountId, { storageUsage: ACCOUNT_STORAGE_USAGE, ...record.Account });
+  });
+
+  const records: StateRecord[] = [];
+  for (const [i, additionalRecord] of additionalRecords.entries()) {
+    let record = additionalRecord;
+    if (validateRecordShape(record, "").length > 0) continue;
+    if ("Account" in record) {
+      const account = accountRecords.get(record.Account.accountId);
+      if (account) records.push({ Account: account });
+      continue;
+    }
+
+    let accountId: string;
+    let storageUsage: number;
+    if ("AccessKey" in record) {
+      const { publicKey, permission } = record.AccessKey;
+      accountId = record.AccessKey.accountId;
+      const id = `${accountId}/${publicKey}`;
+      if (accessKeys.has(id)) {
+        issues.push(`${path}[${i}]: duplicate access key ${publicKey} for ${accountId}`);
+        continue;
+      }
+      accessKeys.add(id);
+      storageUsage = accessKeyStorageUsage(publicKey, permission ?? "FullAccess");
+    } else if ("Contract" in record) {
+      accountId = record.Contract.accountId;
+      if (contracts.has(accountId)) {
+        issues.push(`${path}[${i}]: duplicate contract for ${accountId}`);
+        continue;
+      }
+      contracts.add(accountId);
+      const code = await readCode(record.Contract.code);
+      record = { Contract: { accountId, code } };
+      storageUsage = code.length;
+      const existingAccount = existingAccounts.get(accountId);
+      if (existingAccount) existingAccount['code_hash'] = codeHash(code);
+    } else {
+      accountId = record.Data.accountId;
+      const id = `${accountId}/${Buffer.from(toBytes(record.Data.key)).toString("base64")}`;
+      if (dataKeys.has(id)) {
+        issues.push(`${path}[${i}]: duplicate data key for ${accountId}`);
+        continue;
+      }
+      dataKeys.add(id);
+      storageUsage = dataStorageUsage(record.Data.key, record.Data.value);
+    }
+
+    const account = accountRecords.get(accountId);
+    const existingAccount = existingAccounts.get(accountId);
+    if (account) {
+      if (!explicitStorageUsage.has(accountId)) {
+        account.storageUsage = (account.storageUsage ?? ACCOUNT_STORAGE_USAGE) + storageUsage;
+      }
+    } else if (existingAccount) {
+      existingAccount['storage_usage'] += storageUsage;
+    } else {
+      issues.push(`${path}[${i}]: account ${accountId} does not exist in genesis`);
+      continue;
+    }
+    records.push(record);
+  }
+
+  if (issues.length > 0) {
+    throw new TypedError(`Invalid ${path}:\n${issues.join("\n")}`, SandboxErrors.InvalidConfig);
+  }
+  return records;
+}
+
+function validateRecordShape(record: StateRecord, path: string): string[] {
+  const kinds = record && typeof record === "object" ? Object.keys(record) : [];
+  if (kinds.length !== 1 || !["Account", "AccessKey", "Contract", "Data"].includes(kinds[0]!)) {
+    return [`${path}: expected exactly one of Account, AccessKey, Contract or Data`];
+  }
+  const kind = kinds[0]!;
+  const fields = (record as Record<string, any>)[kind];
+  const issues: string[] = [];
+  const isBytes = (value: unknown) => typeof value === "string" || value instanceof Uint8Array;
+
+  if (!fields || typeof fields !== "object") {
+    return [`${path}.${kind}: expected an object`];
+  }
+  if (typeof fields.accountId !== "string" || fields.accountId.length === 0) {
+    issues.push(`${path}.${kind}.accountId: expected a non-empty string`);
+  }
+  if (kind === "Account") {
+    if (typeof fields.balance !== "bigint" || fields.balance < BigInt(0)) {
+      issues.push(`${path}.Account.balance: expected a non-negative bigint`);
+    }
+    if (fields.locked !== undefined && (typeof fields.locked !== "bigint" || fields.locked < BigInt(0))) {
+      issues.push(`${path}.Account.locked: expected a non-negative bigint`);
+    }
+    if (fields.storageUsage !== undefined && !Number.isInteger(fields.storageUsage)) {
+      issues.push(`${path}.Account.storageUsage: expected an integer`);
+    }
+  } else if (kind === "AccessKey") {
+    if (typeof fields.publicKey !== "string" || !fields.publicKey.includes(":")) {
+      issues.push(`${path}.AccessKey.publicKey: expected a public key like 'ed25519:...'`);
+    }
+    const permission = fields.permission;
+    if (permission !== undefined && permission !== "FullAccess") {
+      if (typeof permission?.receiverId !== "string") {
+        issues.push(`${path}.AccessKey.permission.receiverId: expected a string`);
+      }
+      if (permission?.methodNames !== undefined
+        && !(Array.isArray(permission.methodNames) && permission.methodNames.every((name: unknown) => typeof name === "string"))) {
+        issues.push(`${path}.AccessKey.permission.methodNames: expected an array of strings`);
+      }
+      if (permission?.allowance != null && typeof permission.allowance !== "bigint") {
+        issues.push(`${path}.AccessKey.permission.allowance: expected a bigint or null`);
+      }
+    }
+  } else if (kind === "Contract") {
+    if (!isBytes(fields.code)) {
+      issues.push(`${path}.Contract.code: expected wasm bytes or a path to a wasm file`);
+    }
+  } else if (!isBytes(fields.key) || !isBytes(fields.value)) {
+    issues.push(`${path}.Data: expected key and value as bytes or strings`);
+  }
+  return issues;
+}
+
 async function saveAccountsKeys(homeDir: string, additionalAccountsWithDefault: GenesisAccount[]) {
   for (const account of additionalAccountsWithDefault) {
     const keyJson = {
@@ -208,7 +641,42 @@ async function saveAccountsKeys(homeDir: string, additionalAccountsWithDefault:
   }
 }
 
-async function overwriteSandboxConfigJson(homeDir: string, jsonConfig: Record<string, any>) {
+/*
+  * Keys of an account as stored in the `{accountId}.json` files written into the sandbox home directory.
+  * Same layout as the credential files used by near-cli.
+  */
+export interface AccountCredentials {
+  accountId: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+// Reads every `{accountId}.json` key file written by `saveAccountsKeys`
+export async function readAccountsKeys(homeDir: string): Promise<AccountCredentials[]> {
+  const fileNames = (await fs.readdir(homeDir)).filter(name => name.endsWith('.json')).sort();
+  const credentials: AccountCredentials[] = [];
+
+  for (const fileName of fileNames) {
+    let keyJson: Record<string, unknown>;
+    try {
+      keyJson = JSON.parse(await fs.readFile(join(homeDir, fileName), 'utf-8'));
+    } catch {
+      continue;
+    }
+    // node_key.json and validator_key.json use `secret_key`, so they are skipped here
+    if (typeof keyJson['account_id'] !== 'string' || typeof keyJson['private_key'] !== 'string') {
+      continue;
+    }
+    credentials.push({
+      accountId: keyJson['account_id'],
+      publicKey: String(keyJson['public_key']),
+      privateKey: keyJson['private_key'],
+    });
+  }
+  return credentials;
+}
+
+export async function overwriteSandboxConfigJson(homeDir: string, jsonConfig: Record<string, any>) {
   const sandboxPath = join(homeDir, 'config.json');
   const sandboxRaw = await fs.readFile(sandboxPath, 'utf-8');
   const sandboxObj = JSON.parse(sandboxRaw);
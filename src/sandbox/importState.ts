@@ -0,0 +1,131 @@
+import { SandboxErrors, TypedError } from "../errors";
+import { AccessKeyPermission, EMPTY_CODE_HASH, StateRecord } from "./records";
+import { AccessKeyPermissionView, BlockReference, SandboxRpcClient } from "./rpc";
+
+/*
+  * An account to import, optionally limited to contract storage keys starting with one of `prefixes`.
+  */
+export interface ImportAccount {
+  accountId: string;
+  prefixes?: (Uint8Array | string)[];
+}
+
+/**
+ * Describes which accounts to copy from a live network into the sandbox genesis.
+ * @property rpcUrl - RPC endpoint of the network to import from, e.g. "https://rpc.mainnet.near.org".
+ * @property accounts - Account ids, or accounts with their own storage key prefixes.
+ * @property blockHeight - Block height to read the state at. Defaults to the latest final block.
+ * @property prefixes - Only import contract storage keys starting with one of these prefixes. Defaults to all keys.
+ * @property maxStateBytes - Maximum size in bytes of the imported contract storage of a single account. Unlimited by default.
+ */
+export interface ImportConfig {
+  rpcUrl: string;
+  accounts: (string | ImportAccount)[];
+  blockHeight?: number;
+  prefixes?: (Uint8Array | string)[];
+  maxStateBytes?: number;
+}
+
+/**
+ * Fetches the account, code, access keys and contract storage of every imported account
+ * and converts them into state records for genesis.
+ *
+ * @throws {TypedError} `SandboxErrors.ImportFailed` if the network can't be queried or the storage of an account exceeds `maxStateBytes`.
+ */
+export async function fetchImportedRecords(importConfig: ImportConfig): Promise<StateRecord[]> {
+  const client = new SandboxRpcClient(importConfig.rpcUrl);
+  const blockReference: BlockReference = importConfig.blockHeight !== undefined
+    ? { blockId: importConfig.blockHeight }
+    : { finality: "final" };
+
+  const records: StateRecord[] = [];
+  for (const entry of importConfig.accounts) {
+    const { accountId, prefixes } = typeof entry === "string" ? { accountId: entry, prefixes: undefined } : entry;
+    try {
+      records.push(...await fetchAccountRecords(
+        client,
+        accountId,
+        prefixes ?? importConfig.prefixes ?? [""],
+        blockReference,
+        importConfig.maxStateBytes
+      ));
+    } catch (error) {
+      if (error instanceof TypedError && error.type === SandboxErrors.ImportFailed) {
+        throw error;
+      }
+      throw new TypedError(`Failed to import ${accountId} from ${importConfig.rpcUrl}`,
+        SandboxErrors.ImportFailed,
+        error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+  return records;
+}
+
+async function fetchAccountRecords(
+  client: SandboxRpcClient,
+  accountId: string,
+  prefixes: (Uint8Array | string)[],
+  blockReference: BlockReference,
+  maxStateBytes?: number
+): Promise<StateRecord[]> {
+  const account = await client.viewAccount(accountId, blockReference);
+  const records: StateRecord[] = [{
+    Account: {
+      accountId,
+      balance: BigInt(account.amount),
+      locked: BigInt(account.locked),
+      codeHash: account.code_hash,
+      storageUsage: account.storage_usage,
+    }
+  }];
+
+  const { keys } = await client.viewAccessKeyList(accountId, blockReference);
+  for (const { public_key, access_key } of keys) {
+    records.push({
+      AccessKey: {
+        accountId,
+        publicKey: public_key,
+        nonce: access_key.nonce,
+        permission: fromPermissionView(access_key.permission),
+      }
+    });
+  }
+
+  if (account.code_hash === EMPTY_CODE_HASH) {
+    return records;
+  }
+  const { code_base64 } = await client.viewCode(accountId, blockReference);
+  records.push({ Contract: { accountId, code: Buffer.from(code_base64, "base64") } });
+
+  let stateBytes = 0;
+  const seenKeys = new Set<string>();
+  for (const prefix of prefixes) {
+    const { values } = await client.viewState(accountId, prefix, blockReference);
+    for (const { key, value } of values) {
+      // overlapping prefixes return the same keys more than once
+      if (seenKeys.has(key)) continue;
+      seenKeys.add(key);
+
+      const keyBytes = Buffer.from(key, "base64");
+      const valueBytes = Buffer.from(value, "base64");
+      stateBytes += keyBytes.length + valueBytes.length;
+      if (maxStateBytes !== undefined && stateBytes > maxStateBytes) {
+        throw new TypedError(`Contract state of ${accountId} exceeds the limit of ${maxStateBytes} bytes`, SandboxErrors.ImportFailed);
+      }
+      records.push({ Data: { accountId, key: keyBytes, value: valueBytes } });
+    }
+  }
+  return records;
+}
+
+function fromPermissionView(permission: AccessKeyPermissionView): AccessKeyPermission {
+  if (permission === "FullAccess") {
+    return "FullAccess";
+  }
+  const { allowance, receiver_id, method_names } = permission.FunctionCall;
+  return {
+    receiverId: receiver_id,
+    methodNames: method_names,
+    allowance: allowance === null ? null : BigInt(allowance),
+  };
+}
@@ -0,0 +1,71 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync } from "crypto";
+import { base58Decode, base58Encode } from "./records";
+
+// DER encoding of an ed25519 private key without the trailing 32 byte seed
+const PKCS8_ED25519_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+/*
+  * A key in the layout of nearcore's `node_key.json` and `validator_key.json`.
+  * account_id - The validator account for validator keys, empty for node keys.
+  * public_key, secret_key - "ed25519:" followed by the base58 of the 32 byte public key, and of the 64 byte seed + public key.
+  */
+export interface NodeKeyFile {
+  account_id: string;
+  public_key: string;
+  secret_key: string;
+}
+
+export function generateKeyFile(accountId = ""): NodeKeyFile {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  // the raw keys are the last 32 bytes of their DER encodings
+  const publicBytes = publicKey.export({ format: "der", type: "spki" }).subarray(-32);
+  const seed = privateKey.export({ format: "der", type: "pkcs8" }).subarray(-32);
+  return {
+    account_id: accountId,
+    public_key: `ed25519:${base58Encode(publicBytes)}`,
+    secret_key: `ed25519:${base58Encode(Buffer.concat([seed, publicBytes]))}`,
+  };
+}
+
+/**
+ * Checks an "ed25519:" key pair like the ones of `GenesisAccount` and `NodeKeyFile`. Keys of other types are left to the node.
+ *
+ * @returns Problems with the keys, prefixed with `publicPath` or `secretPath`. Empty if the secret key belongs to the public key.
+ */
+export function keyPairIssues(publicKey: unknown, secretKey: unknown, publicPath: string, secretPath: string): string[] {
+  const issues: string[] = [];
+  const publicBytes = decodeKey(publicKey, 32, publicPath, issues);
+  const secretBytes = decodeKey(secretKey, 64, secretPath, issues);
+  if (publicBytes && secretBytes) {
+    const seed = Buffer.concat([PKCS8_ED25519_PREFIX, secretBytes.subarray(0, 32)]);
+    const derived = createPublicKey(createPrivateKey({ key: seed, format: "der", type: "pkcs8" }))
+      .export({ format: "der", type: "spki" })
+      .subarray(-32);
+    if (!derived.equals(publicBytes) || !derived.equals(secretBytes.subarray(32))) {
+      issues.push(`${secretPath}: does not belong to ${publicPath} ${publicKey}`);
+    }
+  }
+  return issues;
+}
+
+// The bytes of an "ed25519:" key, undefined if it is malformed, with an issue added, or of another key type
+function decodeKey(key: unknown, length: number, path: string, issues: string[]): Buffer | undefined {
+  if (typeof key !== "string") {
+    issues.push(`${path}: expected a string`);
+    return undefined;
+  }
+  const separator = key.indexOf(":");
+  const type = key.slice(0, Math.max(separator, 0));
+  if (type !== "ed25519") {
+    if (type !== "secp256k1") {
+      issues.push(`${path}: expected an "ed25519:" or "secp256k1:" key, got ${key}`);
+    }
+    return undefined;
+  }
+  const bytes = base58Decode(key.slice(separator + 1));
+  if (bytes?.length !== length) {
+    issues.push(`${path}: malformed ed25519 key, expected ${length} base58 encoded bytes after "ed25519:"`);
+    return undefined;
+  }
+  return Buffer.from(bytes);
+}
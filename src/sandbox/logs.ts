@@ -0,0 +1,181 @@
+import { ChildProcess } from "child_process";
+import { createWriteStream, WriteStream } from "fs";
+import { createInterface } from "readline";
+import { Readable } from "stream";
+
+export type SandboxLogLevel = "TRACE" | "DEBUG" | "INFO" | "WARN" | "ERROR";
+
+/*
+  * A single line of output of the `near-sandbox` process.
+  * timestamp, level, target - Parsed from nearcore's log format, undefined for lines in another format.
+  * message - The log message, or the whole line if it couldn't be parsed.
+  * raw - The line as printed by the process, without ANSI colors.
+  * stream - The output stream the line was printed to.
+  */
+export interface SandboxLogLine {
+  timestamp?: string;
+  level?: SandboxLogLevel;
+  target?: string;
+  message: string;
+  raw: string;
+  stream: "stdout" | "stderr";
+}
+
+/**
+ * Options for capturing the output of the sandbox process.
+ * @property bufferSize - Number of most recent lines kept in memory and returned by `sandbox.logs()`. Defaults to 1000.
+ * @property file - Path of a file every line is appended to.
+ * @property onLog - Called for every line as soon as it is printed.
+ * @property echo - Print every line to the stderr of the current process. Enabled by `NEAR_ENABLE_SANDBOX_LOG=1`.
+ */
+export interface LogOptions {
+  bufferSize?: number;
+  file?: string;
+  onLog?: (line: SandboxLogLine) => void;
+  echo?: boolean;
+}
+
+const DEFAULT_BUFFER_SIZE = 1000;
+// e.g. "2024-05-01T12:00:00.123456Z  INFO stats: #      12 Downloading headers"
+const NEARCORE_LOG_LINE = /^(\d{4}-\d{2}-\d{2}T\S+)\s+(TRACE|DEBUG|INFO|WARN|ERROR)\s+(?:([\w:.-]+(?:\{[^}]*\})?):\s)?(.*)$/;
+const ANSI_ESCAPE = /\u001b\[[0-9;]*m/g;
+
+export function parseLogLine(line: string, stream: "stdout" | "stderr"): SandboxLogLine {
+  const raw = line.replace(ANSI_ESCAPE, "");
+  const match = NEARCORE_LOG_LINE.exec(raw);
+  if (!match) {
+    return { message: raw, raw, stream };
+  }
+  return {
+    timestamp: match[1],
+    level: match[2] as SandboxLogLevel,
+    target: match[3],
+    message: match[4]!,
+    raw,
+    stream,
+  };
+}
+
+/**
+ * Collects the output of the sandbox process into a bounded ring buffer, and forwards it to
+ * the `onLog` callback, the log file and any open `stream()` iterators.
+ * The same instance is attached to every process a sandbox spawns, so lines survive restarts.
+ */
+export class SandboxLogs {
+  private readonly capacity: number;
+  private readonly buffer: SandboxLogLine[] = [];
+  private readonly options: LogOptions;
+  private readonly file?: WriteStream;
+  private readonly fileOpened: Promise<void>;
+  private readonly listeners = new Set<(line: SandboxLogLine | null) => void>();
+  private fileErrorHandler?: (error: Error) => void;
+  private fileFailed = false;
+  private next = 0;
+  private closed = false;
+
+  constructor(options: LogOptions = {}) {
+    this.options = options;
+    this.capacity = Math.max(1, options.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    if (!options.file) {
+      this.fileOpened = Promise.resolve();
+      return;
+    }
+    const file = createWriteStream(options.file, { flags: "a" });
+    this.file = file;
+    this.fileOpened = new Promise((resolve, reject) => {
+      file.once("open", () => resolve());
+      file.once("error", reject);
+    });
+    this.fileOpened.catch(() => undefined);
+    // a file that can't be written stops being written to, the lines are still buffered and forwarded
+    file.on("error", error => {
+      this.fileFailed = true;
+      this.fileErrorHandler?.(error);
+    });
+  }
+
+  /**
+   * Resolves once the log file is open, right away without a file.
+   * Rejects with the error of opening it, e.g. if its directory doesn't exist.
+   */
+  async open(): Promise<void> {
+    await this.fileOpened;
+  }
+
+  /**
+   * Sets the callback for errors writing the log file after it was opened.
+   */
+  onFileError(handler: (error: Error) => void): void {
+    this.fileErrorHandler = handler;
+  }
+
+  attach(child: ChildProcess): void {
+    this.readLines(child.stdout, "stdout");
+    this.readLines(child.stderr, "stderr");
+  }
+
+  /**
+   * Returns the buffered lines, oldest first.
+   */
+  lines(): SandboxLogLine[] {
+    return this.buffer.length < this.capacity
+      ? [...this.buffer]
+      : [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+  }
+
+  /**
+   * Yields every line printed from now on, until the logs are closed.
+   */
+  async *stream(): AsyncIterableIterator<SandboxLogLine> {
+    const pending: (SandboxLogLine | null)[] = [];
+    let wake: (() => void) | undefined;
+    const listener = (line: SandboxLogLine | null) => {
+      pending.push(line);
+      wake?.();
+    };
+    if (this.closed) return;
+    this.listeners.add(listener);
+    try {
+      while (true) {
+        if (pending.length === 0) {
+          await new Promise<void>(resolve => wake = resolve);
+          wake = undefined;
+        }
+        const line = pending.shift();
+        if (line === null || line === undefined) return;
+        yield line;
+      }
+    } finally {
+      this.listeners.delete(listener);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    for (const listener of this.listeners) listener(null);
+    if (this.file && !this.fileFailed) {
+      await new Promise<void>(resolve => this.file!.end(resolve));
+    }
+  }
+
+  private readLines(input: Readable | null, stream: "stdout" | "stderr"): void {
+    if (!input) return;
+    createInterface({ input, crlfDelay: Infinity }).on("line", raw => this.push(parseLogLine(raw, stream)));
+  }
+
+  private push(line: SandboxLogLine): void {
+    // readline may still deliver lines of the exited process after the logs were closed
+    if (this.closed) return;
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(line);
+    } else {
+      this.buffer[this.next] = line;
+      this.next = (this.next + 1) % this.capacity;
+    }
+    if (this.options.echo) process.stderr.write(`${line.raw}\n`);
+    if (!this.fileFailed) this.file?.write(`${line.raw}\n`);
+    this.options.onLog?.(line);
+    for (const listener of this.listeners) listener(line);
+  }
+}
@@ -0,0 +1,210 @@
+import { execFile } from "child_process";
+import { existsSync } from "fs";
+import { readdir, readFile, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, join, sep } from "path";
+import { promisify } from "util";
+import {
+    isPidAlive,
+    isSandboxTmpDirName,
+    portLockOwner,
+    portOfLockFile,
+    readSandboxMetadata,
+    releasePortLock
+} from "./sandboxUtils";
+
+/**
+ * Options accepted by `Sandbox.reap()`.
+ * @property dryRun - Only report what would be removed, without stopping or removing anything.
+ */
+export interface ReapOptions {
+    dryRun?: boolean;
+}
+
+/*
+  * What `Sandbox.reap()` cleaned up, or would have with `dryRun`.
+  * processes - PIDs of nodes whose owner process exited without tearing them down.
+  * homeDirs - Temporary home directories no live process uses.
+  * lockFiles - Port lock files whose owner process exited.
+  */
+export interface ReapResult {
+    processes: number[];
+    homeDirs: string[];
+    lockFiles: string[];
+}
+
+// A node process: its home directory and the ports it listens on
+interface SandboxProcess {
+    pid: number;
+    homeDir: string;
+    ports: number[];
+}
+
+const BINARY_NAME = "near-sandbox";
+const ADDRESS_ARGS = ["--rpc-addr", "--network-addr"];
+// a temporary directory without metadata may still be initializing
+const UNCLAIMED_DIR_MAX_AGE_MS = 60 * 60 * 1000;
+// proper-lockfile considers a lock stale once it hasn't been updated for this long
+const LOCK_STALE_MS = 10_000;
+const TERMINATE_TIMEOUT_MS = 5000;
+const TERMINATE_POLL_INTERVAL_MS = 100;
+
+/**
+ * Stops sandbox nodes whose owner process exited without tearing them down, then removes temporary home
+ * directories and port lock files no live process uses. Detached nodes are never stopped.
+ */
+export async function reapSandboxes(options: ReapOptions = {}): Promise<ReapResult> {
+    const result: ReapResult = { processes: [], homeDirs: [], lockFiles: [] };
+    const running: SandboxProcess[] = [];
+    for (const node of await listSandboxProcesses()) {
+        if (await isOrphan(node.homeDir)) {
+            result.processes.push(node.pid);
+            if (!options.dryRun) {
+                await terminate(node.pid);
+            }
+        } else {
+            running.push(node);
+        }
+    }
+
+    const tmp = tmpdir();
+    for (const entry of await readdir(tmp, { withFileTypes: true })) {
+        const path = join(tmp, entry.name);
+        if (!entry.isDirectory() || !isSandboxTmpDirName(entry.name)) {
+            continue;
+        }
+        if (running.some(node => node.homeDir === path || node.homeDir.startsWith(path + sep)) || await isClaimed(path)) {
+            continue;
+        }
+        result.homeDirs.push(path);
+        if (!options.dryRun) {
+            await rm(path, { recursive: true, force: true });
+        }
+    }
+
+    const usedPorts = new Set(running.flatMap(node => node.ports));
+    for (const entry of await readdir(tmp)) {
+        const port = portOfLockFile(entry);
+        const path = join(tmp, entry);
+        if (port === undefined || usedPorts.has(port) || !(await isStaleLock(path))) {
+            continue;
+        }
+        result.lockFiles.push(path);
+        if (!options.dryRun) {
+            await releasePortLock(path);
+        }
+    }
+    return result;
+}
+
+// A node is an orphan if the process that started it is gone, unless it was started detached
+async function isOrphan(homeDir: string): Promise<boolean> {
+    const metadata = await readSandboxMetadata(homeDir).catch(() => undefined);
+    return metadata?.ownerPid !== undefined && !metadata.detached && !isPidAlive(metadata.ownerPid);
+}
+
+// Whether a temporary directory, or a node directory of a network inside it, belongs to a live process.
+// Directories of nodes started by older versions don't record an owner and are only removed once old.
+async function isClaimed(dir: string): Promise<boolean> {
+    const subdirs = (await readdir(dir, { withFileTypes: true }).catch(() => []))
+        .filter(entry => entry.isDirectory())
+        .map(entry => join(dir, entry.name));
+    let hasOwner = false;
+    for (const homeDir of [dir, ...subdirs]) {
+        const metadata = await readSandboxMetadata(homeDir).catch(() => undefined);
+        if (metadata?.ownerPid !== undefined) {
+            hasOwner = true;
+            if (isPidAlive(metadata.ownerPid)) {
+                return true;
+            }
+        }
+    }
+    return !hasOwner && await isYoungerThan(dir, UNCLAIMED_DIR_MAX_AGE_MS);
+}
+
+// A lock is stale if its owner is gone, or if it names no owner and hasn't been touched for a while
+async function isStaleLock(lockFilePath: string): Promise<boolean> {
+    const owner = await portLockOwner(lockFilePath);
+    if (owner !== undefined) {
+        return !isPidAlive(owner);
+    }
+    const lockDir = `${lockFilePath}.lock`;
+    return !(await isYoungerThan(existsSync(lockDir) ? lockDir : lockFilePath, LOCK_STALE_MS));
+}
+
+async function isYoungerThan(path: string, ms: number): Promise<boolean> {
+    try {
+        return Date.now() - (await stat(path)).mtimeMs < ms;
+    } catch {
+        return false;
+    }
+}
+
+// Asks the process to exit and kills it if it doesn't within `TERMINATE_TIMEOUT_MS`
+export async function terminate(pid: number): Promise<void> {
+    try {
+        process.kill(pid, "SIGTERM");
+    } catch {
+        return;
+    }
+    const deadline = Date.now() + TERMINATE_TIMEOUT_MS;
+    while (isPidAlive(pid)) {
+        if (Date.now() >= deadline) {
+            try {
+                process.kill(pid, "SIGKILL");
+            } catch {
+                // exited in the meantime
+            }
+            return;
+        }
+        await new Promise(resolve => setTimeout(resolve, TERMINATE_POLL_INTERVAL_MS));
+    }
+}
+
+async function listSandboxProcesses(): Promise<SandboxProcess[]> {
+    const nodes: SandboxProcess[] = [];
+    for (const [pid, args] of await listCommandLines()) {
+        const homeIndex = args.indexOf("--home");
+        if (pid === process.pid || !isSandboxBinary(args) || homeIndex === -1 || !args[homeIndex + 1] || !args.includes("run")) {
+            continue;
+        }
+        const ports = ADDRESS_ARGS
+            .map(name => args.indexOf(name))
+            .filter(index => index !== -1 && args[index + 1] !== undefined)
+            .map(index => Number(args[index + 1]!.slice(args[index + 1]!.lastIndexOf(":") + 1)));
+        nodes.push({ pid, homeDir: args[homeIndex + 1]!, ports });
+    }
+    return nodes;
+}
+
+// The binary, or a script run by an interpreter, named like the downloaded binary or `NEAR_SANDBOX_BIN_PATH`
+function isSandboxBinary(args: string[]): boolean {
+    const binPath = process.env["NEAR_SANDBOX_BIN_PATH"];
+    return args.slice(0, 2).some(arg => basename(arg) === BINARY_NAME || (binPath !== undefined && arg === binPath));
+}
+
+// Arguments of every process of the system, by PID
+async function listCommandLines(): Promise<Map<number, string[]>> {
+    const commandLines = new Map<number, string[]>();
+    if (existsSync("/proc")) {
+        for (const entry of await readdir("/proc")) {
+            if (!/^\d+$/.test(entry)) {
+                continue;
+            }
+            const cmdline = await readFile(join("/proc", entry, "cmdline"), "utf-8").catch(() => "");
+            if (cmdline) {
+                commandLines.set(Number(entry), cmdline.split("\0").filter(arg => arg !== ""));
+            }
+        }
+        return commandLines;
+    }
+    // arguments containing spaces can't be told apart in the output of ps
+    const { stdout } = await promisify(execFile)("ps", ["-A", "-o", "pid=,args="]);
+    for (const line of stdout.split("\n")) {
+        const [pid, ...args] = line.trim().split(/\s+/);
+        if (pid && args.length > 0) {
+            commandLines.set(Number(pid), args);
+        }
+    }
+    return commandLines;
+}
@@ -0,0 +1,215 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+
+/*
+  * State records in the same shape nearcore uses for genesis records and
+  * the `sandbox_patch_state` RPC, but with JS-friendly field names and types.
+  * Balances are bigints in yoctoNEAR, keys and values can be passed either as
+  * raw bytes or as utf-8 strings, and contract code can be a path to a wasm file.
+  */
+
+export const EMPTY_CODE_HASH = "11111111111111111111111111111111";
+
+// Storage usage accounting as done by nearcore's runtime (see `StorageUsageConfig`)
+export const ACCOUNT_STORAGE_USAGE = 100;
+const EXTRA_BYTES_PER_RECORD = 40;
+const DEFAULT_STORAGE_USAGE = ACCOUNT_STORAGE_USAGE + accessKeyStorageUsage("ed25519:", "FullAccess");
+
+/**
+ * Permission of an access key. Either `"FullAccess"` or a function call permission
+ * restricted to `receiverId` and, optionally, a list of method names and an allowance in yoctoNEAR.
+ */
+export type AccessKeyPermission =
+  | "FullAccess"
+  | {
+    receiverId: string;
+    methodNames?: string[];
+    allowance?: bigint | null;
+  };
+
+/*
+  * accountId - The account to create or overwrite.
+  * balance - The liquid balance of the account in yoctoNEAR.
+  * locked - The staked balance of the account in yoctoNEAR. Defaults to 0.
+  * codeHash - Base58 hash of the deployed code. Computed from a `Contract` record for the same account if omitted.
+  * storageUsage - Storage used by the account in bytes. Defaults to 182, the usage of an account with a single full access key.
+  */
+export interface AccountRecord {
+  accountId: string;
+  balance: bigint;
+  locked?: bigint;
+  codeHash?: string;
+  storageUsage?: number;
+}
+
+export interface AccessKeyRecord {
+  accountId: string;
+  publicKey: string;
+  nonce?: bigint | number;
+  permission?: AccessKeyPermission;
+}
+
+/*
+  * code - The wasm bytes, or a path to a wasm file.
+  */
+export interface ContractRecord {
+  accountId: string;
+  code: Uint8Array | string;
+}
+
+/*
+  * key, value - Raw bytes, or utf-8 strings that will be encoded to bytes.
+  */
+export interface DataRecord {
+  accountId: string;
+  key: Uint8Array | string;
+  value: Uint8Array | string;
+}
+
+export type StateRecord =
+  | { Account: AccountRecord }
+  | { AccessKey: AccessKeyRecord }
+  | { Contract: ContractRecord }
+  | { Data: DataRecord };
+
+export function toBytes(value: Uint8Array | string): Uint8Array {
+  return typeof value === "string" ? Buffer.from(value, "utf-8") : value;
+}
+
+export async function readCode(code: Uint8Array | string): Promise<Uint8Array> {
+  return typeof code === "string" ? readFile(code) : code;
+}
+
+/**
+ * Computes the code hash nearcore stores for a contract: base58 of the sha256 of the wasm bytes.
+ */
+export function codeHash(code: Uint8Array): string {
+  return base58Encode(createHash("sha256").update(code).digest());
+}
+
+/**
+ * Converts typed records into the JSON representation used by genesis.json and `sandbox_patch_state`.
+ * Contract code is read from disk when given as a path, and accounts without an explicit
+ * `codeHash` get the hash of the contract deployed to them in the same batch.
+ */
+export async function toNearcoreRecords(records: StateRecord[]): Promise<Record<string, unknown>[]> {
+  const codes = new Map<string, Uint8Array>();
+  for (const record of records) {
+    if ("Contract" in record) {
+      codes.set(record.Contract.accountId, await readCode(record.Contract.code));
+    }
+  }
+
+  return records.map((record) => {
+    if ("Account" in record) {
+      const { accountId, balance, locked, codeHash: hash, storageUsage } = record.Account;
+      const code = codes.get(accountId);
+      return {
+        Account: {
+          account_id: accountId,
+          account: {
+            amount: balance.toString(),
+            locked: (locked ?? BigInt(0)).toString(),
+            code_hash: hash ?? (code ? codeHash(code) : EMPTY_CODE_HASH),
+            storage_usage: storageUsage ?? DEFAULT_STORAGE_USAGE,
+          },
+        },
+      };
+    }
+    if ("AccessKey" in record) {
+      const { accountId, publicKey, nonce, permission } = record.AccessKey;
+      return {
+        AccessKey: {
+          account_id: accountId,
+          public_key: publicKey,
+          access_key: {
+            nonce: Number(nonce ?? 0),
+            permission: toNearcorePermission(permission ?? "FullAccess"),
+          },
+        },
+      };
+    }
+    if ("Contract" in record) {
+      return {
+        Contract: {
+          account_id: record.Contract.accountId,
+          code: Buffer.from(codes.get(record.Contract.accountId)!).toString("base64"),
+        },
+      };
+    }
+    return {
+      Data: {
+        account_id: record.Data.accountId,
+        data_key: Buffer.from(toBytes(record.Data.key)).toString("base64"),
+        value: Buffer.from(toBytes(record.Data.value)).toString("base64"),
+      },
+    };
+  });
+}
+
+/**
+ * Bytes an access key adds to the storage usage of its account.
+ */
+export function accessKeyStorageUsage(publicKey: string, permission: AccessKeyPermission): number {
+  // borsh sizes: key type tag + key bytes, then nonce + permission tag
+  const publicKeySize = publicKey.startsWith("secp256k1:") ? 1 + 64 : 1 + 32;
+  let accessKeySize = 8 + 1;
+  if (permission !== "FullAccess") {
+    accessKeySize += (permission.allowance == null ? 1 : 1 + 16)
+      + 4 + Buffer.byteLength(permission.receiverId)
+      + 4 + (permission.methodNames ?? []).reduce((size, name) => size + 4 + Buffer.byteLength(name), 0);
+  }
+  return publicKeySize + accessKeySize + EXTRA_BYTES_PER_RECORD;
+}
+
+/**
+ * Bytes a contract storage entry adds to the storage usage of its account.
+ */
+export function dataStorageUsage(key: Uint8Array | string, value: Uint8Array | string): number {
+  return toBytes(key).length + toBytes(value).length + EXTRA_BYTES_PER_RECORD;
+}
+
+function toNearcorePermission(permission: AccessKeyPermission): unknown {
+  if (permission === "FullAccess") {
+    return "FullAccess";
+  }
+  return {
+    FunctionCall: {
+      allowance: permission.allowance == null ? null : permission.allowance.toString(),
+      receiver_id: permission.receiverId,
+      method_names: permission.methodNames ?? [],
+    },
+  };
+}
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+export function base58Encode(bytes: Uint8Array): string {
+  let value = BigInt("0x" + (Buffer.from(bytes).toString("hex") || "0"));
+  let encoded = "";
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = "1" + encoded;
+  }
+  return encoded;
+}
+
+/**
+ * Decodes a base58 string, undefined if it contains characters outside the base58 alphabet.
+ */
+export function base58Decode(encoded: string): Uint8Array | undefined {
+  let value = BigInt(0);
+  for (const char of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) return undefined;
+    value = value * BigInt(58) + BigInt(digit);
+  }
+  const hex = value === BigInt(0) ? "" : value.toString(16);
+  const bytes = Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex");
+  const leadingZeros = encoded.length - encoded.replace(/^1+/, "").length;
+  return new Uint8Array(Buffer.concat([Buffer.alloc(leadingZeros), bytes]));
+}
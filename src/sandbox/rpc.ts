@@ -0,0 +1,350 @@
+import got from "got";
+import { RpcErrors, SandboxErrors, TypedError } from "../errors";
+
+interface JsonRpcResponse<T> {
+    result?: T;
+    error?: RpcErrorBody;
+}
+
+interface RpcErrorBody {
+    name?: string;
+    message?: string;
+    data?: unknown;
+    cause?: { name?: string; info?: unknown };
+}
+
+// nearcore error cause names mapped to error types, anything else is reported as `RpcRequestFailed`
+const RPC_ERROR_TYPES: Record<string, RpcErrors> = {
+    UNKNOWN_ACCOUNT: RpcErrors.UnknownAccount,
+    UNKNOWN_ACCESS_KEY: RpcErrors.UnknownAccessKey,
+    UNKNOWN_BLOCK: RpcErrors.UnknownBlock,
+    UNKNOWN_CHUNK: RpcErrors.UnknownChunk,
+    INVALID_SHARD_ID: RpcErrors.UnknownChunk,
+    UNKNOWN_TRANSACTION: RpcErrors.UnknownTransaction,
+    NO_CONTRACT_CODE: RpcErrors.NoContractCode,
+    CONTRACT_EXECUTION_ERROR: RpcErrors.ContractExecutionError,
+    INVALID_TRANSACTION: RpcErrors.InvalidTransaction,
+    TIMEOUT_ERROR: RpcErrors.Timeout,
+    PARSE_ERROR: RpcErrors.ParseError,
+    REQUEST_VALIDATION_ERROR: RpcErrors.ParseError,
+    INTERNAL_ERROR: RpcErrors.InternalError,
+};
+
+/**
+ * Sends a single JSON-RPC request to a NEAR node and returns its `result`.
+ *
+ * @throws {TypedError} with one of the `RpcErrors` types if the node responded with a known error,
+ * or `SandboxErrors.RpcRequestFailed` if the request could not be sent or the error is not recognized.
+ */
+export async function jsonRpcRequest<T>(rpcUrl: string, method: string, params: unknown): Promise<T> {
+    let body: JsonRpcResponse<T>;
+    try {
+        body = await got.post(rpcUrl, {
+            json: { jsonrpc: "2.0", id: "dontcare", method, params },
+            throwHttpErrors: false,
+        }).json<JsonRpcResponse<T>>();
+    } catch (error) {
+        throw new TypedError(`RPC request '${method}' failed`,
+            SandboxErrors.RpcRequestFailed,
+            error instanceof Error ? error : new Error(String(error)));
+    }
+
+    if (body.error) {
+        const reason = body.error.cause?.name ?? body.error.name ?? "UNKNOWN_ERROR";
+        throw new TypedError(`RPC request '${method}' failed with ${reason}`,
+            RPC_ERROR_TYPES[reason] ?? SandboxErrors.RpcRequestFailed,
+            new Error(JSON.stringify(body.error)));
+    }
+    // Older nodes report failed view calls inside the result instead of as an RPC error
+    const legacyError = (body.result as { error?: unknown } | undefined)?.error;
+    if (typeof legacyError === "string") {
+        throw new TypedError(`RPC request '${method}' failed with ${legacyError}`,
+            RpcErrors.ContractExecutionError,
+            new Error(legacyError));
+    }
+    return body.result as T;
+}
+
+export type Finality = "optimistic" | "near-final" | "final";
+
+/**
+ * The block a query is executed against: either a finality level or a specific block height or hash.
+ */
+export type BlockReference = { finality: Finality } | { blockId: number | string };
+
+export type TxExecutionStatus =
+    | "NONE"
+    | "INCLUDED"
+    | "EXECUTED_OPTIMISTIC"
+    | "INCLUDED_FINAL"
+    | "EXECUTED"
+    | "FINAL";
+
+export interface StatusResponse {
+    chain_id: string;
+    protocol_version: number;
+    latest_protocol_version: number;
+    rpc_addr: string | null;
+    genesis_hash: string;
+    node_public_key: string;
+    validator_account_id: string | null;
+    validators: { account_id: string }[];
+    version: { version: string; build: string; rustc_version?: string };
+    sync_info: {
+        latest_block_hash: string;
+        latest_block_height: number;
+        latest_state_root: string;
+        latest_block_time: string;
+        syncing: boolean;
+        earliest_block_hash?: string;
+        earliest_block_height?: number;
+        earliest_block_time?: string;
+        epoch_id?: string;
+        epoch_start_height?: number;
+    };
+}
+
+export interface BlockHeaderView {
+    height: number;
+    hash: string;
+    prev_hash: string;
+    epoch_id: string;
+    next_epoch_id: string;
+    timestamp: number;
+    timestamp_nanosec: string;
+    gas_price: string;
+    total_supply: string;
+    [key: string]: unknown;
+}
+
+export interface ChunkHeaderView {
+    chunk_hash: string;
+    shard_id: number;
+    height_created: number;
+    height_included: number;
+    prev_state_root: string;
+    gas_used: number;
+    gas_limit: number;
+    [key: string]: unknown;
+}
+
+export interface BlockResponse {
+    author: string;
+    header: BlockHeaderView;
+    chunks: ChunkHeaderView[];
+}
+
+export interface ChunkResponse {
+    author: string;
+    header: ChunkHeaderView;
+    transactions: Record<string, unknown>[];
+    receipts: Record<string, unknown>[];
+}
+
+interface QueryResponseBase {
+    block_height: number;
+    block_hash: string;
+}
+
+export interface AccountView extends QueryResponseBase {
+    amount: string;
+    locked: string;
+    code_hash: string;
+    storage_usage: number;
+    storage_paid_at?: number;
+}
+
+export type AccessKeyPermissionView =
+    | "FullAccess"
+    | { FunctionCall: { allowance: string | null; receiver_id: string; method_names: string[] } };
+
+export interface AccessKeyView extends QueryResponseBase {
+    nonce: number;
+    permission: AccessKeyPermissionView;
+}
+
+export interface AccessKeyListView extends QueryResponseBase {
+    keys: { public_key: string; access_key: { nonce: number; permission: AccessKeyPermissionView } }[];
+}
+
+export interface ContractCodeView extends QueryResponseBase {
+    code_base64: string;
+    hash: string;
+}
+
+export interface ViewStateResponse extends QueryResponseBase {
+    values: { key: string; value: string }[];
+}
+
+export interface CallFunctionResponse extends QueryResponseBase {
+    result: number[];
+    logs: string[];
+}
+
+export interface FinalExecutionOutcome {
+    final_execution_status: TxExecutionStatus;
+    status?: Record<string, unknown> | string;
+    transaction?: Record<string, unknown>;
+    transaction_outcome?: Record<string, unknown>;
+    receipts_outcome?: Record<string, unknown>[];
+    receipts?: Record<string, unknown>[];
+}
+
+/**
+ * A minimal JSON-RPC client for a NEAR node, available on every sandbox as `sandbox.rpc`.
+ *
+ * Queries default to `optimistic` finality, so state changes are visible as soon as they are applied.
+ * Errors returned by the node are thrown as `TypedError`s with one of the `RpcErrors` types.
+ *
+ * @example
+ * ```ts
+ * const account = await sandbox.rpc.viewAccount('sandbox');
+ * const result = await sandbox.rpc.callFunction('contract.sandbox', 'get_value', {});
+ * ```
+ */
+export class SandboxRpcClient {
+    public readonly rpcUrl: string;
+    private readonly crashed?: () => Promise<never>;
+
+    /**
+     * @param rpcUrl JSON-RPC endpoint of the node.
+     * @param crashed Returns a promise that rejects once the node has died. Pending requests reject with its error
+     * instead of a connection error.
+     */
+    constructor(rpcUrl: string, crashed?: () => Promise<never>) {
+        this.rpcUrl = rpcUrl;
+        this.crashed = crashed;
+    }
+
+    /**
+     * Sends an arbitrary JSON-RPC request. Useful for methods this client doesn't wrap.
+     */
+    async request<T>(method: string, params: unknown): Promise<T> {
+        const response = jsonRpcRequest<T>(this.rpcUrl, method, params);
+        return this.crashed ? Promise.race([response, this.crashed()]) : response;
+    }
+
+    async status(): Promise<StatusResponse> {
+        return this.request("status", []);
+    }
+
+    async block(blockReference: BlockReference = DEFAULT_BLOCK_REFERENCE): Promise<BlockResponse> {
+        return this.request("block", toBlockParams(blockReference));
+    }
+
+    /**
+     * @param chunkId The chunk hash, or the block and shard the chunk was included in.
+     */
+    async chunk(chunkId: string | { blockId: number | string; shardId: number }): Promise<ChunkResponse> {
+        return this.request("chunk", typeof chunkId === "string"
+            ? { chunk_id: chunkId }
+            : { block_id: chunkId.blockId, shard_id: chunkId.shardId });
+    }
+
+    async viewAccount(accountId: string, blockReference: BlockReference = DEFAULT_BLOCK_REFERENCE): Promise<AccountView> {
+        return this.query({ request_type: "view_account", account_id: accountId }, blockReference);
+    }
+
+    async viewAccessKey(
+        accountId: string,
+        publicKey: string,
+        blockReference: BlockReference = DEFAULT_BLOCK_REFERENCE
+    ): Promise<AccessKeyView> {
+        return this.query({ request_type: "view_access_key", account_id: accountId, public_key: publicKey }, blockReference);
+    }
+
+    async viewAccessKeyList(accountId: string, blockReference: BlockReference = DEFAULT_BLOCK_REFERENCE): Promise<AccessKeyListView> {
+        return this.query({ request_type: "view_access_key_list", account_id: accountId }, blockReference);
+    }
+
+    async viewCode(accountId: string, blockReference: BlockReference = DEFAULT_BLOCK_REFERENCE): Promise<ContractCodeView> {
+        return this.query({ request_type: "view_code", account_id: accountId }, blockReference);
+    }
+
+    /**
+     * Reads the contract storage of `accountId`. Keys and values in the response are base64 encoded.
+     *
+     * @param prefix Only return keys starting with this prefix, as raw bytes or a utf-8 string.
+     */
+    async viewState(
+        accountId: string,
+        prefix: Uint8Array | string = "",
+        blockReference: BlockReference = DEFAULT_BLOCK_REFERENCE
+    ): Promise<ViewStateResponse> {
+        return this.query({
+            request_type: "view_state",
+            account_id: accountId,
+            prefix_base64: Buffer.from(typeof prefix === "string" ? Buffer.from(prefix, "utf-8") : prefix).toString("base64"),
+        }, blockReference);
+    }
+
+    /**
+     * Calls a view method of a contract.
+     *
+     * @param args Arguments as raw bytes, or an object that will be serialized to JSON.
+     * @returns The raw response. Use `Buffer.from(response.result)` to read the returned bytes.
+     */
+    async callFunction(
+        accountId: string,
+        methodName: string,
+        args: Uint8Array | Record<string, unknown> = {},
+        blockReference: BlockReference = DEFAULT_BLOCK_REFERENCE
+    ): Promise<CallFunctionResponse> {
+        const argsBytes = args instanceof Uint8Array ? args : Buffer.from(JSON.stringify(args), "utf-8");
+        return this.query({
+            request_type: "call_function",
+            account_id: accountId,
+            method_name: methodName,
+            args_base64: Buffer.from(argsBytes).toString("base64"),
+        }, blockReference);
+    }
+
+    async tx(txHash: string, senderAccountId: string, waitUntil: TxExecutionStatus = "EXECUTED_OPTIMISTIC"): Promise<FinalExecutionOutcome> {
+        return this.request("tx", { tx_hash: txHash, sender_account_id: senderAccountId, wait_until: waitUntil });
+    }
+
+    /**
+     * Same as `tx()` but also returns the receipts produced by the transaction.
+     */
+    async txStatus(txHash: string, senderAccountId: string, waitUntil: TxExecutionStatus = "EXECUTED_OPTIMISTIC"): Promise<FinalExecutionOutcome> {
+        return this.request("EXPERIMENTAL_tx_status", { tx_hash: txHash, sender_account_id: senderAccountId, wait_until: waitUntil });
+    }
+
+    /**
+     * Submits a signed transaction.
+     *
+     * @param signedTransaction Borsh serialized signed transaction, as bytes or base64.
+     */
+    async sendTx(signedTransaction: Uint8Array | string, waitUntil: TxExecutionStatus = "EXECUTED_OPTIMISTIC"): Promise<FinalExecutionOutcome> {
+        const signedTxBase64 = typeof signedTransaction === "string"
+            ? signedTransaction
+            : Buffer.from(signedTransaction).toString("base64");
+        return this.request("send_tx", { signed_tx_base64: signedTxBase64, wait_until: waitUntil });
+    }
+
+    /**
+     * Sandbox only: writes state records in the nearcore JSON format. See `Sandbox.patchState()` for a typed variant.
+     */
+    async sandboxPatchState(records: Record<string, unknown>[]): Promise<void> {
+        await this.request("sandbox_patch_state", { records });
+    }
+
+    /**
+     * Sandbox only: produces `deltaHeight` blocks instantly. See `Sandbox.fastForward()` to also wait for the new height.
+     */
+    async sandboxFastForward(deltaHeight: number): Promise<void> {
+        await this.request("sandbox_fast_forward", { delta_height: deltaHeight });
+    }
+
+    private async query<T>(params: Record<string, unknown>, blockReference: BlockReference): Promise<T> {
+        return this.request("query", { ...params, ...toBlockParams(blockReference) });
+    }
+}
+
+const DEFAULT_BLOCK_REFERENCE: BlockReference = { finality: "optimistic" };
+
+function toBlockParams(blockReference: BlockReference): Record<string, unknown> {
+    return "finality" in blockReference
+        ? { finality: blockReference.finality }
+        : { block_id: blockReference.blockId };
+}
@@ -3,52 +3,85 @@ import * as fs from "fs/promises";
 import * as net from "net";
 import { join } from "path";
 import { tmpdir } from "os";
-import { lock } from 'proper-lockfile';
-import { TcpAndLockErrors, TypedError } from "../errors";
+import { lock, unlock } from 'proper-lockfile';
+import { SandboxErrors, TcpAndLockErrors, TypedError } from "../errors";
 import { spawnWithArgsAndVersion } from "../binary/binaryExecution";
 import { readFile } from "fs/promises";
 import { dir } from "tmp-promise";
 import { DEFAULT_NEAR_SANDBOX_VERSION } from "../constants";
 
-const DEFAULT_RPC_HOST = '127.0.0.1';
+export const DEFAULT_RPC_HOST = '127.0.0.1';
 
-export function rpcSocket(port: number): string {
-    return `${DEFAULT_RPC_HOST}:${port}`;
+// Options for `lock()` and `unlock()` of port lock files. The lock file itself only records the owner and may not exist yet,
+// and a lock removed by a teardown in another process is not an error.
+const PORT_LOCK_OPTIONS = { realpath: false, onCompromised: () => undefined };
+
+export function rpcSocket(port: number, host: string = DEFAULT_RPC_HOST): string {
+    const address = unbracketed(host);
+    return address.includes(':') ? `[${address}]:${port}` : `${address}:${port}`;
+}
+
+// The address to connect to a node bound to `host`, the loopback address if it listens on all addresses
+export function connectableHost(host: string): string {
+    const address = unbracketed(host);
+    if (address === '0.0.0.0') return '127.0.0.1';
+    if (address === '::') return '::1';
+    return address;
+}
+
+// "[::1]" is the IPv6 address "::1" as written in URLs
+function unbracketed(host: string): string {
+    return host.replace(/^\[(.*)\]$/, '$1');
 }
 
-export async function acquireOrLockPort(port?: number): Promise<{ port: number; lockFilePath: string }> {
-    return port
-        ? tryAcquireSpecificPort(port)
-        : acquireUnusedPort();
+/*
+  * How ports are picked and checked:
+  * host - The address the port must be free on. Defaults to `127.0.0.1`.
+  * range - Inclusive `[min, max]` range to pick a port from when no port is given, instead of letting the OS choose.
+  */
+export interface PortOptions {
+    host?: string;
+    range?: [number, number];
 }
 
-async function tryAcquireSpecificPort(port: number): Promise<{ port: number; lockFilePath: string }> {
-    const checkedPort = await resolveAvailablePort({ port, host: DEFAULT_RPC_HOST });
+export async function acquireOrLockPort(port?: number, options: PortOptions = {}): Promise<{ port: number; lockFilePath: string }> {
+    const host = unbracketed(options.host ?? DEFAULT_RPC_HOST);
+    if (port) {
+        return tryAcquireSpecificPort(port, host);
+    }
+    return options.range ? acquirePortInRange(options.range, host) : acquireUnusedPort(host);
+}
+
+async function tryAcquireSpecificPort(port: number, host: string): Promise<{ port: number; lockFilePath: string }> {
+    let checkedPort: number;
+    try {
+        checkedPort = await resolveAvailablePort({ port, host });
+    } catch (error) {
+        // the port is bound by a process that doesn't hold its lock
+        throw new TypedError(`Port ${port} is not available`,
+            TcpAndLockErrors.PortNotAvailable,
+            error instanceof Error ? error : new Error(String(error)));
+    }
 
     if (checkedPort !== port) {
         throw new TypedError(`Port ${port} is not available`, TcpAndLockErrors.PortNotAvailable);
     }
 
-    const lockFilePath = await createLockFileForPort(port);
-
     try {
-        await lock(lockFilePath);
-        return { port, lockFilePath };
+        return { port, lockFilePath: await lockPort(port) };
     } catch {
         throw new TypedError(`Failed to lock port ${port}. It may already be in use.`, TcpAndLockErrors.LockFailed);
     }
 }
 
-async function acquireUnusedPort(): Promise<{ port: number; lockFilePath: string }> {
+async function acquireUnusedPort(host: string): Promise<{ port: number; lockFilePath: string }> {
     const errors: string[] = [];
     const MAX_ATTEMPTS = 10;
 
     for (let i = 0; i < MAX_ATTEMPTS; i++) {
         try {
-            const port = await resolveAvailablePort({ port: 0, host: DEFAULT_RPC_HOST });
-            const lockFilePath = await createLockFileForPort(port);
-            await lock(lockFilePath);
-            return { port, lockFilePath };
+            const port = await resolveAvailablePort({ port: 0, host });
+            return { port, lockFilePath: await lockPort(port) };
         } catch (error) {
             errors.push(error instanceof Error ? error.message : String(error));
         }
@@ -60,6 +93,25 @@ async function acquireUnusedPort(): Promise<{ port: number; lockFilePath: string
     );
 }
 
+// Tries every port of the range once, starting at a random one so parallel sandboxes don't compete for the same ports
+async function acquirePortInRange([min, max]: [number, number], host: string): Promise<{ port: number; lockFilePath: string }> {
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min < 1 || max > 65535 || min > max) {
+        throw new TypedError(`Invalid port range ${min}-${max}`, SandboxErrors.InvalidConfig);
+    }
+    const size = max - min + 1;
+    const offset = Math.floor(Math.random() * size);
+    for (let i = 0; i < size; i++) {
+        const port = min + (offset + i) % size;
+        try {
+            await resolveAvailablePort({ port, host });
+            return { port, lockFilePath: await lockPort(port) };
+        } catch {
+            // in use by another process or locked by another sandbox
+        }
+    }
+    throw new TypedError(`No free port in range ${min}-${max}`, TcpAndLockErrors.PortAcquisitionFailed);
+}
+
 // options takes the port and host, if port is 0 os will find an available port
 async function resolveAvailablePort(options: net.ListenOptions): Promise<number> {
     return new Promise((resolve, reject) => {
@@ -81,24 +133,66 @@ async function resolveAvailablePort(options: net.ListenOptions): Promise<number>
     });
 }
 
-async function createLockFileForPort(port: number): Promise<string> {
-    const lockFilePath = join(tmpdir(), `near-sandbox-port-${port}.lock`);
+const PORT_LOCK_FILE = /^near-sandbox-port-(\d+)\.lock$/;
 
-    if (!existsSync(lockFilePath)) {
-        await fs.writeFile(lockFilePath, '');
-    }
+export function portLockFilePath(port: number): string {
+    return join(tmpdir(), `near-sandbox-port-${port}.lock`);
+}
 
+// The port of a port lock file name, undefined for other names
+export function portOfLockFile(name: string): number | undefined {
+    const match = PORT_LOCK_FILE.exec(name);
+    return match ? Number(match[1]) : undefined;
+}
+
+// Locks `port` and records the current process as the owner in its lock file.
+// A lock whose owner no longer runs, e.g. after a crashed test run, is taken over.
+async function lockPort(port: number): Promise<string> {
+    const lockFilePath = portLockFilePath(port);
+    try {
+        await lock(lockFilePath, PORT_LOCK_OPTIONS);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ELOCKED' || !(await hasDeadOwner(lockFilePath))) {
+            throw error;
+        }
+        await fs.rm(`${lockFilePath}.lock`, { recursive: true, force: true });
+        await lock(lockFilePath, PORT_LOCK_OPTIONS);
+    }
+    await fs.writeFile(lockFilePath, JSON.stringify({ pid: process.pid }), 'utf-8');
     return lockFilePath;
 }
 
-export async function dumpStateFromPath(pathToState: string): Promise<{
+// Whether the lock file names an owner process that is no longer running. Without an owner the lock is left to go stale.
+async function hasDeadOwner(lockFilePath: string): Promise<boolean> {
+    const pid = await portLockOwner(lockFilePath);
+    return pid !== undefined && !isPidAlive(pid);
+}
+
+// The process recorded as the owner of a port lock, undefined if the lock file doesn't name one
+export async function portLockOwner(lockFilePath: string): Promise<number | undefined> {
+    try {
+        const { pid } = JSON.parse(await fs.readFile(lockFilePath, 'utf-8'));
+        return typeof pid === 'number' ? pid : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Releases a port lock and removes its lock file, also if the lock was taken by another process,
+// like the one that started a detached sandbox
+export async function releasePortLock(lockFilePath: string): Promise<void> {
+    await fs.rm(lockFilePath, { force: true });
+    await unlock(lockFilePath, PORT_LOCK_OPTIONS).catch(() => fs.rm(`${lockFilePath}.lock`, { recursive: true, force: true }));
+}
+
+export async function dumpStateFromPath(pathToState: string, version: string = DEFAULT_NEAR_SANDBOX_VERSION): Promise<{
     config: Record<string, unknown>;
     genesis: Record<string, unknown>;
     nodeKey: Record<string, unknown>;
     validatorKey: Record<string, unknown>;
 }> {
     await new Promise<void>(async (resolve, reject) => {
-        const proc = await spawnWithArgsAndVersion(DEFAULT_NEAR_SANDBOX_VERSION, ["--home", pathToState, "view-state", "dump-state", "--stream"]);
+        const proc = await spawnWithArgsAndVersion(version, ["--home", pathToState, "view-state", "dump-state", "--stream"]);
         proc.on("error", reject);
         proc.on("exit", (code) => {
             if (code === 0) {
@@ -128,6 +222,13 @@ export async function dumpStateFromPath(pathToState: string): Promise<{
     };
 }
 
+// Temporary home directories are named like near-sandbox-05-01_12-00-a1b2c3
+const TMP_DIR_NAME = /^near-sandbox-\d{2}-\d{2}_\d{2}-\d{2}-[a-z0-9]+$/;
+
+export function isSandboxTmpDirName(name: string): boolean {
+    return TMP_DIR_NAME.test(name);
+}
+
 export async function createTmpDir() {
     const now = new Date();
     const timestamp = `${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}_${String(now.getHours()).padStart(2, "0")}-${String(now.getMinutes()).padStart(2, "0")}`;
@@ -136,3 +237,88 @@ export async function createTmpDir() {
 
     return dir({ unsafeCleanup: true, name });
 }
+
+const SANDBOX_METADATA_FILE = "near-sandbox-meta.json";
+
+/*
+  * Information about the last run of a sandbox, stored in its home directory
+  * so a stopped sandbox can be resumed with `Sandbox.open()`.
+  * ownerPid - The process that started the node, which tears it down unless it is `detached`. Used by `Sandbox.reap()`.
+  */
+export interface SandboxMetadata {
+    version: string;
+    rpcPort: number;
+    netPort: number;
+    host?: string;
+    ownerPid?: number;
+    detached?: boolean;
+}
+
+export async function isInitializedHomeDir(homeDir: string): Promise<boolean> {
+    return existsSync(join(homeDir, "config.json")) && existsSync(join(homeDir, "genesis.json"));
+}
+
+export async function writeSandboxMetadata(homeDir: string, metadata: SandboxMetadata): Promise<void> {
+    await fs.writeFile(join(homeDir, SANDBOX_METADATA_FILE), JSON.stringify(metadata, null, 2), 'utf-8');
+}
+
+export async function readSandboxMetadata(homeDir: string): Promise<SandboxMetadata | undefined> {
+    const metadataPath = join(homeDir, SANDBOX_METADATA_FILE);
+    if (!existsSync(metadataPath)) {
+        return undefined;
+    }
+    return JSON.parse(await readFile(metadataPath, 'utf-8'));
+}
+
+/*
+  * Everything another process needs to use or stop a running sandbox, written to the `handleFile` of `Sandbox.start()`
+  * and read by `Sandbox.connect()`.
+  * pid - The node process.
+  * host - The address the node is bound to, `rpcUrl` may use another advertised host.
+  * ownsHomeDir - Whether `homeDir` is a temporary directory to delete on teardown.
+  * runArgs - The arguments the node was started with, to start it again with the same home directory and ports.
+  * logFile - Where a detached node writes its output.
+  */
+export interface SandboxHandle {
+    pid: number;
+    rpcUrl: string;
+    host?: string;
+    homeDir: string;
+    ownsHomeDir: boolean;
+    version: string;
+    rpcPort: number;
+    netPort: number;
+    rpcPortLockPath: string;
+    netPortLockPath: string;
+    runArgs: string[];
+    logFile?: string;
+}
+
+export async function writeSandboxHandle(handleFile: string, handle: SandboxHandle): Promise<void> {
+    await fs.writeFile(handleFile, JSON.stringify(handle, null, 2), 'utf-8');
+}
+
+export async function readSandboxHandle(handleFile: string): Promise<SandboxHandle> {
+    let handle: Partial<SandboxHandle>;
+    try {
+        handle = JSON.parse(await readFile(handleFile, 'utf-8'));
+    } catch (error) {
+        throw new TypedError(`Failed to read sandbox handle ${handleFile}`,
+            SandboxErrors.InvalidArgument,
+            error instanceof Error ? error : new Error(String(error)));
+    }
+    if (typeof handle?.pid !== 'number' || typeof handle.rpcUrl !== 'string' || typeof handle.homeDir !== 'string' || !Array.isArray(handle.runArgs)) {
+        throw new TypedError(`${handleFile} is not a sandbox handle`, SandboxErrors.InvalidArgument);
+    }
+    return handle as SandboxHandle;
+}
+
+export function isPidAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM means the process exists but belongs to another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}